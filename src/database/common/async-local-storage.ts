@@ -1,5 +1,11 @@
 import { AsyncLocalStorage } from 'async_hooks';
 import { IAsyncLocalStore } from '../types/async-local-store';
+import { TypeOrmTransactionTesting } from './transaction-testing';
 
 /** Async local storage that is used to share the transactional entity manager across different method calls */
 export const asyncLocalStorage = new AsyncLocalStorage<IAsyncLocalStore>();
+
+/** Retrieves the entity manager of the active transaction of the connection, falling back to the test transaction if there is one */
+export const getActiveEntityManager = (connection: string) =>
+  asyncLocalStorage.getStore()?.[connection] ??
+  TypeOrmTransactionTesting.getEntityManager(connection);
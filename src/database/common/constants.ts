@@ -1 +1,6 @@
 export const DATASOURCE_KEY = 'datasource';
+export const TRANSACTIONAL_ENTITY_REPOSITORY_KEY =
+  'transactional_entity_repository';
+export const TRANSACTIONAL_METHOD_KEY = 'transactional_method';
+export const NON_TRANSACTIONAL_KEY = 'non_transactional';
+export const TRANSACTIONAL_ROUTE_KEY = 'transactional_route';
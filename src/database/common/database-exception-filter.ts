@@ -0,0 +1,43 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ConflictException,
+  HttpException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { DatabaseException } from '../exceptions/database-exception';
+import { DeadlockDetectedException } from '../exceptions/deadlock-detected-exception';
+import { ForeignKeyViolationException } from '../exceptions/foreign-key-violation-exception';
+import { NotNullViolationException } from '../exceptions/not-null-violation-exception';
+import { UniqueConstraintViolationException } from '../exceptions/unique-constraint-violation-exception';
+
+/** Maps a database exception to the HTTP exception describing it to the client */
+const toHttpException = (exception: DatabaseException): HttpException => {
+  if (
+    exception instanceof UniqueConstraintViolationException ||
+    exception instanceof DeadlockDetectedException
+  ) {
+    return new ConflictException(exception.message, { cause: exception });
+  }
+  return new UnprocessableEntityException(exception.message, {
+    cause: exception,
+  });
+};
+
+/**
+ * Exception filter responding with 409 Conflict to unique constraint violations and deadlocks,
+ * and with 422 Unprocessable Entity to foreign key and not null violations.
+ * Register it globally with APP_FILTER or app.useGlobalFilters()
+ */
+@Catch(
+  UniqueConstraintViolationException,
+  ForeignKeyViolationException,
+  NotNullViolationException,
+  DeadlockDetectedException,
+)
+export class DatabaseExceptionFilter extends BaseExceptionFilter {
+  catch(exception: DatabaseException, host: ArgumentsHost) {
+    super.catch(toHttpException(exception), host);
+  }
+}
@@ -0,0 +1,40 @@
+import { Logger, OnApplicationShutdown } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { DataSourceStorage } from './datasource-storage';
+import { waitForActiveTransactions } from './transaction';
+
+export const DEFAULT_SHUTDOWN_TIMEOUT = 10000;
+
+/** Destroys a data source created by the module once the application shuts down */
+export class DataSourceLifecycle implements OnApplicationShutdown {
+  private readonly logger = new Logger('TypeOrmTransactionModule');
+
+  constructor(
+    private readonly name: string,
+    private readonly dataSource: DataSource,
+    private readonly shutdownTimeout: number = DEFAULT_SHUTDOWN_TIMEOUT,
+  ) {}
+
+  /** Waits for the transactions in progress until the shutdown timeout is passed, then destroys the data source and removes it from the storage */
+  async onApplicationShutdown() {
+    const completed = await waitForActiveTransactions(
+      this.name,
+      this.shutdownTimeout,
+    );
+    if (!completed) {
+      this.logger.warn(
+        `Transactions on connection ${this.name} did not complete within ${this.shutdownTimeout}ms, destroying the data source anyway`,
+      );
+    }
+
+    if (
+      DataSourceStorage.list().includes(this.name) &&
+      DataSourceStorage.getDataSource(this.name) === this.dataSource
+    ) {
+      DataSourceStorage.remove(this.name);
+    }
+    if (this.dataSource.isInitialized) {
+      await this.dataSource.destroy();
+    }
+  }
+}
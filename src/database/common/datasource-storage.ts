@@ -18,4 +18,14 @@ export class DataSourceStorage {
   static setDataSource(name: string, dataSource: DataSource): void {
     this.dataSourceStore.set(name, dataSource);
   }
+
+  /** Returns the names of all stored data sources */
+  static list(): string[] {
+    return [...this.dataSourceStore.keys()];
+  }
+
+  /** Removes the data source from the storage without destroying it. Returns false if there was no such data source */
+  static remove(name: string = DEFAULT_DATASOURCE_NAME): boolean {
+    return this.dataSourceStore.delete(name);
+  }
 }
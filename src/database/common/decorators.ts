@@ -2,52 +2,193 @@ import {
   getDataSourceInjectionToken,
   getRepositoryInjectionToken,
 } from './utils';
+import { DEFAULT_DATASOURCE_NAME } from './datasource-storage';
 import {
-  DEFAULT_DATASOURCE_NAME,
-  DataSourceStorage,
-} from './datasource-storage';
-import { IAsyncLocalStore } from '../types/async-local-store';
-import { asyncLocalStorage } from './async-local-storage';
+  TransactionOptions,
+  TransactionalOptions,
+} from '../types/transaction-options';
+import { transaction } from './transaction';
+import { runOnMaster } from './replication';
+import { RequestContext } from './request-context';
 import { EntitySchema } from 'typeorm';
-import { Inject } from '@nestjs/common';
+import { Inject, Logger, SetMetadata } from '@nestjs/common';
+import {
+  NON_TRANSACTIONAL_KEY,
+  TRANSACTIONAL_ENTITY_REPOSITORY_KEY,
+  TRANSACTIONAL_METHOD_KEY,
+  TRANSACTIONAL_ROUTE_KEY,
+} from './constants';
+
+const logger = new Logger('TypeOrmTransactionModule');
+
+/** Copies the name and the reflected metadata of the original method to the method wrapping it */
+const copyMethodMetadata = (
+  originalMethod: (...args: any[]) => any,
+  wrappedMethod: (...args: any[]) => any,
+) => {
+  Object.defineProperty(wrappedMethod, 'name', { value: originalMethod.name });
+  for (const key of Reflect.getMetadataKeys(originalMethod)) {
+    Reflect.defineMetadata(
+      key,
+      Reflect.getMetadata(key, originalMethod),
+      wrappedMethod,
+    );
+  }
+};
+
+/** Wraps the method in a transaction, keeping its name and the metadata reflected on it */
+const wrapMethod = (
+  originalMethod: (...args: any[]) => any,
+  options: TransactionOptions,
+  className: string,
+) => {
+  const transactionOptions: TransactionOptions = {
+    name: `${className}.${originalMethod.name}`,
+    ...options,
+  };
+  const wrappedMethod = async function (...args: any[]) {
+    return await transaction(
+      async () => await originalMethod.apply(this, args),
+      transactionOptions,
+    );
+  };
+
+  copyMethodMetadata(originalMethod, wrappedMethod);
+  Reflect.defineMetadata(TRANSACTIONAL_METHOD_KEY, true, wrappedMethod);
+
+  return wrappedMethod;
+};
+
+/** Whether the method is left as it is when its class is decorated */
+const isMethodExcluded = (
+  method: (...args: any[]) => any,
+  propertyKey: string,
+  include: string[] | undefined,
+  exclude: string[] | undefined,
+) =>
+  Reflect.getMetadata(NON_TRANSACTIONAL_KEY, method) ||
+  Reflect.getMetadata(TRANSACTIONAL_METHOD_KEY, method) ||
+  exclude?.includes(propertyKey) ||
+  (include && !include.includes(propertyKey));
+
+/** Whether the method returns a promise, as far as it can be told without calling it: async functions, including ones compiled to __awaiter for targets below ES2017, and methods whose reflected return type is Promise */
+const isAsyncMethod = (
+  method: (...args: any[]) => any,
+  prototype: object,
+  propertyKey: string,
+) =>
+  method.constructor.name === 'AsyncFunction' ||
+  /\b__awaiter\(/.test(Function.prototype.toString.call(method)) ||
+  Reflect.getMetadata('design:returntype', prototype, propertyKey) === Promise;
+
+/** Wraps a method of a transactional class that was not recognized as async, warning once if it returns a promise since it then runs without a transaction */
+const warnIfPromiseReturned = (
+  originalMethod: (...args: any[]) => any,
+  className: string,
+) => {
+  let warned = false;
+  const wrappedMethod = function (...args: any[]) {
+    const result = originalMethod.apply(this, args);
+    if (!warned && typeof result?.then === 'function') {
+      warned = true;
+      logger.warn(
+        `${className}.${originalMethod.name} returns a promise but runs without a transaction, since it is not an async function. Make it async or list it in include option of @Transactional()`,
+      );
+    }
+    return result;
+  };
+
+  copyMethodMetadata(originalMethod, wrappedMethod);
+  return wrappedMethod;
+};
 
 /**
  * This decorator wraps all queries run within the method in a transaction.
  * If the decorated method calls other methods, those queries will also run in a transaction.
+ * By default, the method joins the transaction that is already active for the connection.
+ *
+ * When used on a class, every async method of the class is wrapped, except the ones marked with `@NonTransactional()`.
+ * Other methods log a warning if they return a promise, since they run without a transaction.
+ * The wrapped methods can be narrowed down with `include` and `exclude` options. Method level decorators take precedence
  *
- * @param connection name of the connection confiured in forRoot() method
+ * @param options name of the connection confiured in forRoot() method or transaction options
  */
-export const Transactional =
-  (connection: string = DEFAULT_DATASOURCE_NAME) =>
-  (target: any, propertyKey: string, descriptor: PropertyDescriptor) => {
-    const originalMethod = descriptor.value;
+export function Transactional(
+  options: string | TransactionalOptions = DEFAULT_DATASOURCE_NAME,
+) {
+  const resolvedOptions: TransactionalOptions =
+    typeof options === 'string' ? { connection: options } : options;
+  const { include, exclude, ...transactionOptions } = resolvedOptions;
+
+  return (
+    target: any,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor,
+  ): any => {
+    if (descriptor) {
+      descriptor.value = wrapMethod(
+        descriptor.value,
+        transactionOptions,
+        target.constructor.name,
+      );
+      return descriptor;
+    }
 
-    if (process.env.NODE_ENV?.toUpperCase() !== 'TEST') {
-      descriptor.value = async function (...args: any[]) {
-        const queryRunner =
-          DataSourceStorage.getDataSource(connection).createQueryRunner();
-        await queryRunner.connect();
-        await queryRunner.startTransaction();
-
-        const store: IAsyncLocalStore = {
-          [connection]: queryRunner.manager,
-        };
-
-        try {
-          const result = await asyncLocalStorage.run(store, async () => {
-            return await originalMethod.apply(this, args);
-          });
-          await queryRunner.commitTransaction();
-          return result;
-        } catch (error) {
-          await queryRunner.rollbackTransaction();
-          throw error;
-        } finally {
-          await queryRunner.release();
-        }
-      };
+    const prototype = target.prototype;
+    for (const key of Object.getOwnPropertyNames(prototype)) {
+      const methodDescriptor = Object.getOwnPropertyDescriptor(prototype, key);
+      if (
+        key === 'constructor' ||
+        typeof methodDescriptor.value !== 'function' ||
+        isMethodExcluded(methodDescriptor.value, key, include, exclude)
+      ) {
+        continue;
+      }
+      methodDescriptor.value =
+        include || isAsyncMethod(methodDescriptor.value, prototype, key)
+          ? wrapMethod(methodDescriptor.value, transactionOptions, target.name)
+          : warnIfPromiseReturned(methodDescriptor.value, target.name);
+      Object.defineProperty(prototype, key, methodDescriptor);
     }
+  };
+}
+
+/** Excludes the method from the transaction of a class decorated with `@Transactional()` */
+export const NonTransactional = () => SetMetadata(NON_TRANSACTIONAL_KEY, true);
 
+/**
+ * Marks a route handler or all handlers of a controller or resolver to be run in a transaction by TransactionInterceptor.
+ * Unlike @Transactional(), the transaction also covers the pipes and the interceptors registered after TransactionInterceptor
+ *
+ * @param options name of the connection confiured in forRoot() method or transaction options
+ */
+export const TransactionalRoute = (
+  options: string | TransactionOptions = DEFAULT_DATASOURCE_NAME,
+) => SetMetadata(TRANSACTIONAL_ROUTE_KEY, options);
+
+/** Routes the non-transactional reads made within the method to the master instead of the read replicas. Useful to read your own writes */
+export const UseMaster =
+  () => (target: any, propertyKey: string, descriptor: PropertyDescriptor) => {
+    const originalMethod = descriptor.value;
+    descriptor.value = async function (...args: any[]) {
+      return await runOnMaster(
+        async () => await originalMethod.apply(this, args),
+      );
+    };
+    copyMethodMetadata(originalMethod, descriptor.value);
+    return descriptor;
+  };
+
+/** Runs the method without limiting queries to the tenant of the request. Meant for administrative queries */
+export const WithoutTenantScope =
+  () => (target: any, propertyKey: string, descriptor: PropertyDescriptor) => {
+    const originalMethod = descriptor.value;
+    descriptor.value = async function (...args: any[]) {
+      return await RequestContext.runWithoutTenantScope(
+        async () => await originalMethod.apply(this, args),
+      );
+    };
+    copyMethodMetadata(originalMethod, descriptor.value);
     return descriptor;
   };
 
@@ -56,7 +197,16 @@ export const InjectTransactionalDataSource = (
   dataSource: string = DEFAULT_DATASOURCE_NAME,
 ) => Inject(getDataSourceInjectionToken(dataSource));
 
-/** Injects transactional repository which runs every query in a transaction if there is an active transaction */
+/** Injects transactional repository which runs every query in a transaction if there is an active transaction. Data source name must match the one given to forFeature() method */
 export const InjectTransactionalRepository = (
   entity: Function | EntitySchema<any>,
-) => Inject(getRepositoryInjectionToken(entity));
+  dataSource: string = DEFAULT_DATASOURCE_NAME,
+) => Inject(getRepositoryInjectionToken(entity, dataSource));
+
+/**
+ * Marks a class extending TransactionalRepository as the custom repository of the entity.
+ * The class can then be registered in forFeature() method and injected by its type
+ */
+export const TransactionalEntityRepository = (
+  entity: Function | EntitySchema<any>,
+) => SetMetadata(TRANSACTIONAL_ENTITY_REPOSITORY_KEY, entity);
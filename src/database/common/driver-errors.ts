@@ -0,0 +1,137 @@
+import { DeadlockDetectedException } from '../exceptions/deadlock-detected-exception';
+import {
+  DatabaseException,
+  IDatabaseErrorDetails,
+} from '../exceptions/database-exception';
+import { ForeignKeyViolationException } from '../exceptions/foreign-key-violation-exception';
+import { NotNullViolationException } from '../exceptions/not-null-violation-exception';
+import { UniqueConstraintViolationException } from '../exceptions/unique-constraint-violation-exception';
+
+/** Returns the error thrown by the driver, unwrapping TypeORM's QueryFailedError */
+const getDriverError = (error: any) => error?.driverError ?? error;
+
+/** Splits a comma separated list of column names, removing quotes */
+const splitColumns = (columns: string) =>
+  columns.split(',').map((column) => column.trim().replace(/[`"]/g, ''));
+
+/** Translates errors of postgres and cockroachdb using their SQLSTATE codes */
+const translatePostgresError = (error: any) => {
+  const driverError = getDriverError(error);
+  // Details look like: Key (email)=(john@example.com) already exists.
+  const keyColumns = /Key \((.+?)\)=/.exec(driverError?.detail ?? '')?.[1];
+  const details: IDatabaseErrorDetails = {
+    constraint: driverError?.constraint,
+    table: driverError?.table,
+    columns: driverError?.column
+      ? [driverError.column]
+      : keyColumns
+      ? splitColumns(keyColumns)
+      : undefined,
+  };
+
+  switch (driverError?.code) {
+    case '23505':
+      return new UniqueConstraintViolationException(details, driverError);
+    case '23503':
+      return new ForeignKeyViolationException(details, driverError);
+    case '23502':
+      return new NotNullViolationException(details, driverError);
+    case '40P01':
+      return new DeadlockDetectedException(details, driverError);
+    default:
+      return error;
+  }
+};
+
+/** Translates errors of mysql and mariadb using their error numbers */
+const translateMysqlError = (error: any) => {
+  const driverError = getDriverError(error);
+  const message: string = driverError?.sqlMessage ?? driverError?.message ?? '';
+
+  switch (driverError?.errno) {
+    case 1062: {
+      // Duplicate entry 'john@example.com' for key 'users.IDX_email'
+      const key = /for key '(.+)'$/.exec(message)?.[1];
+      const [table, constraint] = key?.includes('.')
+        ? key.split('.')
+        : [undefined, key];
+      return new UniqueConstraintViolationException(
+        { table, constraint },
+        driverError,
+      );
+    }
+    case 1451:
+    case 1452: {
+      // a foreign key constraint fails (`db`.`posts`, CONSTRAINT `FK_user` FOREIGN KEY (`userId`) REFERENCES ...
+      const match =
+        /\(`[^`]+`\.`([^`]+)`, CONSTRAINT `([^`]+)` FOREIGN KEY \(([^)]+)\)/.exec(
+          message,
+        );
+      return new ForeignKeyViolationException(
+        {
+          table: match?.[1],
+          constraint: match?.[2],
+          columns: match ? splitColumns(match[3]) : undefined,
+        },
+        driverError,
+      );
+    }
+    case 1048:
+    case 1364: {
+      // Column 'name' cannot be null, Field 'name' doesn't have a default value
+      const column = /(?:Column|Field) '([^']+)'/.exec(message)?.[1];
+      return new NotNullViolationException(
+        { columns: column ? [column] : undefined },
+        driverError,
+      );
+    }
+    case 1213:
+      return new DeadlockDetectedException({}, driverError);
+    default:
+      return error;
+  }
+};
+
+/** Translates errors of sqlite drivers using their messages, since the error codes are not reported consistently */
+const translateSqliteError = (error: any) => {
+  const driverError = getDriverError(error);
+  const message: string = driverError?.message ?? String(driverError);
+
+  // UNIQUE constraint failed: user.email, user.tenantId
+  const match = /(UNIQUE|NOT NULL) constraint failed: (.+)$/m.exec(message);
+  if (match) {
+    const columns = match[2].split(',').map((column) => column.trim());
+    const details: IDatabaseErrorDetails = {
+      table: columns[0].split('.')[0],
+      columns: columns.map((column) => column.split('.').pop()),
+    };
+    return match[1] === 'UNIQUE'
+      ? new UniqueConstraintViolationException(details, driverError)
+      : new NotNullViolationException(details, driverError);
+  }
+  if (/FOREIGN KEY constraint failed/.test(message)) {
+    return new ForeignKeyViolationException({}, driverError);
+  }
+  return error;
+};
+
+const errorTranslators: { [driver: string]: (error: any) => any } = {
+  postgres: translatePostgresError,
+  'aurora-postgres': translatePostgresError,
+  cockroachdb: translatePostgresError,
+  mysql: translateMysqlError,
+  mariadb: translateMysqlError,
+  'aurora-mysql': translateMysqlError,
+  sqlite: translateSqliteError,
+  'better-sqlite3': translateSqliteError,
+  sqljs: translateSqliteError,
+};
+
+/** Translates a driver error into a typed exception. Errors that cannot be translated are returned as they are */
+export function translateDriverError(error: any, driver: string) {
+  if (error instanceof DatabaseException) {
+    return error;
+  }
+  const translator = errorTranslators[driver];
+  return translator ? translator(error) : error;
+}
@@ -0,0 +1,64 @@
+/** Maximum number of milliseconds to keep a record that expires after first retrieval when no ttl is given */
+export const DEFAULT_ENTITY_CACHE_TTL = 60000;
+
+/** Caches records found by entity pipes so that repeated lookups of the same record in a request don't hit the database */
+export class EntityCache {
+  private static readonly entityStore = new Map<
+    string,
+    { entity: any; once: boolean }
+  >();
+
+  /** Builds the cache key of a lookup. Returns undefined if the conditions are not cacheable */
+  static getKey(
+    connection: string,
+    entityName: string,
+    where: object,
+  ): string | undefined {
+    const entries = Object.entries(where ?? {});
+    if (
+      !entries.length ||
+      entries.some(
+        ([, value]) =>
+          !['string', 'number', 'bigint', 'boolean'].includes(typeof value),
+      )
+    ) {
+      return undefined;
+    }
+    const conditions = entries
+      .map(([key, value]) => `${key}=${String(value)}`)
+      .sort()
+      .join('&');
+    return `${connection}:${entityName}:${conditions}`;
+  }
+
+  static get(key: string): any {
+    const cached = this.entityStore.get(key);
+    if (cached?.once) {
+      this.entityStore.delete(key);
+    }
+    return cached?.entity;
+  }
+
+  static set(
+    key: string,
+    entity: any,
+    options: { ttl?: number; once?: boolean },
+  ): void {
+    this.entityStore.set(key, { entity, once: !!options.once });
+    setTimeout(() => {
+      if (this.entityStore.get(key)?.entity === entity) {
+        this.entityStore.delete(key);
+      }
+    }, options.ttl ?? DEFAULT_ENTITY_CACHE_TTL).unref();
+  }
+
+  /** Removes all cached records of the entity. Called whenever the entity is written */
+  static clear(connection: string, entityName: string): void {
+    const prefix = `${connection}:${entityName}:`;
+    for (const key of this.entityStore.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entityStore.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { HealthCheckException } from '../exceptions/health-check-exception';
+import {
+  IHealthIndicatorResult,
+  IPingCheckOptions,
+  IPoolStats,
+} from '../types/health';
+import {
+  DEFAULT_DATASOURCE_NAME,
+  DataSourceStorage,
+} from './datasource-storage';
+import { getActiveTransactionCount } from './transaction';
+
+/** Reads the statistics of the connection pool of pg and mysql2 drivers */
+const getPoolStats = (dataSource: DataSource): IPoolStats => {
+  const driver: any = dataSource.driver;
+  const pool = driver.master ?? driver.pool;
+  if (!pool) {
+    return {};
+  }
+  if (typeof pool.totalCount === 'number') {
+    return {
+      total: pool.totalCount,
+      idle: pool.idleCount,
+      waiting: pool.waitingCount,
+    };
+  }
+  // mysql keeps the connections in arrays, mysql2 in Denque queues, both having a length
+  if (typeof pool._allConnections?.length === 'number') {
+    return {
+      total: pool._allConnections.length,
+      idle: pool._freeConnections?.length,
+      waiting: pool._connectionQueue?.length,
+    };
+  }
+  return {};
+};
+
+/** Checks the health of the connections. Can be used with HealthCheckService of @nestjs/terminus */
+@Injectable()
+export class TypeOrmTransactionHealthIndicator {
+  /** Runs a ping query on the connection, reporting its pool statistics and number of transactions in progress */
+  async pingCheck(
+    key: string,
+    options: IPingCheckOptions = {},
+  ): Promise<IHealthIndicatorResult> {
+    const connection = options.connection ?? DEFAULT_DATASOURCE_NAME;
+    const timeout = options.timeout ?? 1000;
+
+    let timer: NodeJS.Timeout;
+    try {
+      const dataSource = DataSourceStorage.getDataSource(connection);
+      if (!dataSource.isInitialized) {
+        throw new Error(`Connection ${connection} is not initialized`);
+      }
+      await Promise.race([
+        dataSource.query(
+          dataSource.options.type === 'oracle'
+            ? 'SELECT 1 FROM DUAL'
+            : 'SELECT 1',
+        ),
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Ping timed out after ${timeout}ms`)),
+            timeout,
+          );
+        }),
+      ]);
+      return {
+        [key]: {
+          status: 'up',
+          connection,
+          pool: getPoolStats(dataSource),
+          activeTransactions: getActiveTransactionCount(connection),
+        },
+      };
+    } catch (error) {
+      const message = error?.message ?? String(error);
+      throw new HealthCheckException(`${key} is not available`, {
+        [key]: { status: 'down', connection, message },
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
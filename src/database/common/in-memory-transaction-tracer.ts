@@ -0,0 +1,62 @@
+import {
+  ITransactionSpan,
+  ITransactionTracer,
+  TransactionSpanStatusCode,
+} from '../types/transaction-events';
+
+/** Span recorded by InMemoryTransactionTracer */
+export class InMemoryTransactionSpan implements ITransactionSpan {
+  readonly attributes: { [key: string]: string | number | boolean };
+  readonly exceptions: any[] = [];
+  readonly startTime = Date.now();
+  endTime?: number;
+  status: { code: TransactionSpanStatusCode; message?: string } = {
+    code: TransactionSpanStatusCode.UNSET,
+  };
+
+  constructor(
+    readonly name: string,
+    attributes: { [key: string]: string | number | boolean } = {},
+    private readonly onEnd: (span: InMemoryTransactionSpan) => void,
+  ) {
+    this.attributes = { ...attributes };
+  }
+
+  setAttribute(key: string, value: string | number | boolean) {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setStatus(status: { code: TransactionSpanStatusCode; message?: string }) {
+    this.status = status;
+    return this;
+  }
+
+  recordException(exception: any) {
+    this.exceptions.push(exception);
+  }
+
+  end() {
+    this.endTime = Date.now();
+    this.onEnd(this);
+  }
+}
+
+/** Keeps ended spans in memory. Useful in tests */
+export class InMemoryTransactionTracer implements ITransactionTracer {
+  readonly spans: InMemoryTransactionSpan[] = [];
+
+  startSpan(
+    name: string,
+    options: { attributes?: { [key: string]: string | number | boolean } } = {},
+  ): InMemoryTransactionSpan {
+    return new InMemoryTransactionSpan(name, options.attributes, (span) =>
+      this.spans.push(span),
+    );
+  }
+
+  /** Removes all ended spans */
+  clear() {
+    this.spans.length = 0;
+  }
+}
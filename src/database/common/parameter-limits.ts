@@ -0,0 +1,24 @@
+/** Maximum number of bound parameters a single query can have on each driver */
+const parameterLimits: { [driver: string]: number } = {
+  postgres: 65535,
+  'aurora-postgres': 65535,
+  cockroachdb: 65535,
+  mysql: 65535,
+  mariadb: 65535,
+  'aurora-mysql': 65535,
+  oracle: 65535,
+  mssql: 2100,
+};
+
+/** Used for drivers not listed above, e.g. sqlite which allows 999 parameters before version 3.32 */
+const DEFAULT_PARAMETER_LIMIT = 999;
+
+/** Number of records that can be written by a single query without exceeding the parameter limit of the driver */
+export const getMaxRecordsPerQuery = (driver: string, columnCount: number) =>
+  Math.max(
+    1,
+    Math.floor(
+      (parameterLimits[driver] ?? DEFAULT_PARAMETER_LIMIT) /
+        Math.max(columnCount, 1),
+    ),
+  );
@@ -1,36 +1,63 @@
 import {
-  ArgumentMetadata,
+  BadRequestException,
   Injectable,
   NotFoundException,
   PipeTransform,
+  Type,
 } from '@nestjs/common';
 import { InjectTransactionalRepository } from './decorators';
 import { TransactionalRepository } from '../transactional.repository';
-import { EntitySchema } from 'typeorm';
+import { EntitySchema, FindOptionsWhere } from 'typeorm';
+import { DEFAULT_DATASOURCE_NAME } from './datasource-storage';
+import { EntityCache } from './entity-cache';
+import {
+  IEntityByIdPipeOptions,
+  IEntityPipeOptions,
+} from '../types/entity-pipe-options';
 
-/** Checks if entity exists with given id. Throws not found expection if it doesn't */
-export function EntityExistsPipe<T>(
+/** Creates a pipe class that loads the record identified by the value, returning either the value or the record */
+function createEntityPipe<T>(
   EntityClass: Function | EntitySchema<T>,
-  cacheOptions?: {
-    /** Number of milliseconds to keep the found record in the cache */
-    ttl?: number;
-    /** Whether to expire the record after first retrieval */
-    once?: boolean;
-  },
-) {
+  options: IEntityByIdPipeOptions<T>,
+  returnEntity: boolean,
+): Type<PipeTransform> {
+  const dataSource = options.dataSource ?? DEFAULT_DATASOURCE_NAME;
+
   @Injectable()
-  class EntityExistsPipeCls implements PipeTransform {
+  class EntityPipeCls implements PipeTransform {
     constructor(
-      @InjectTransactionalRepository(EntityClass)
+      @InjectTransactionalRepository(EntityClass, dataSource)
       public repository: TransactionalRepository<any>,
     ) {}
 
-    async transform(value: any, metadata: ArgumentMetadata) {
-      const primaryColumn =
-        this.repository.getTypeOrmRepository().metadata.primaryColumns[0]
-          .propertyName;
-      const entity = await this.repository.findOneBy({
-        [primaryColumn]: value,
+    async transform(value: any) {
+      const metadata = this.repository.getTypeOrmRepository().metadata;
+      let where: FindOptionsWhere<any>;
+      if (options.column) {
+        where = { [options.column]: value };
+      } else if (value !== null && typeof value === 'object') {
+        where = {};
+        for (const column of metadata.primaryColumns) {
+          // TypeORM drops undefined conditions, which would match any record
+          if (value[column.propertyName] == null) {
+            throw new BadRequestException(
+              `${metadata.name} ${column.propertyName} is missing`,
+            );
+          }
+          where[column.propertyName] = value[column.propertyName];
+        }
+      } else if (metadata.primaryColumns.length === 1) {
+        where = { [metadata.primaryColumns[0].propertyName]: value };
+      } else {
+        throw new BadRequestException(
+          `${metadata.name} has a composite primary key, an object with all primary columns is expected`,
+        );
+      }
+
+      const entity = await this.repository.findOne({
+        where,
+        relations: options.relations,
+        select: options.select,
       });
       const name =
         EntityClass instanceof Function
@@ -38,10 +65,36 @@ export function EntityExistsPipe<T>(
           : EntityClass.options.name;
 
       if (!entity) {
-        throw new NotFoundException(`${name} with id ${value} not found`);
+        throw new NotFoundException(
+          `${name} with ${options.column ?? 'id'} ${
+            typeof value === 'object' ? JSON.stringify(value) : value
+          } not found`,
+        );
       }
-      return value;
+
+      const key = EntityCache.getKey(dataSource, metadata.name, where);
+      if (key && !options.select && (options.ttl || options.once)) {
+        // The handler may change the record it is given, so a copy is cached
+        EntityCache.set(key, this.repository.create(entity), options);
+      }
+      return returnEntity ? entity : value;
     }
   }
-  return EntityExistsPipeCls;
+  return EntityPipeCls;
+}
+
+/** Checks if entity exists with given id. Throws not found expection if it doesn't */
+export function EntityExistsPipe<T>(
+  EntityClass: Function | EntitySchema<T>,
+  options: IEntityPipeOptions = {},
+) {
+  return createEntityPipe(EntityClass, options, false);
+}
+
+/** Loads the entity with given id and passes it to the route handler instead of the id. Throws not found expection if it doesn't exist */
+export function EntityByIdPipe<T>(
+  EntityClass: Function | EntitySchema<T>,
+  options: IEntityByIdPipeOptions<T> = {},
+) {
+  return createEntityPipe(EntityClass, options, true);
 }
@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { DataSource } from 'typeorm';
+
+/** Async local storage marking the calls whose reads should go to the master even if read replicas are configured */
+const masterStorage = new AsyncLocalStorage<boolean>();
+
+/** Runs the callback, routing all non-transactional reads made within it to the master */
+export const runOnMaster = async <T>(cb: () => Promise<T>): Promise<T> =>
+  await masterStorage.run(true, cb);
+
+/** Whether the current call runs within runOnMaster() or a method decorated with @UseMaster() */
+export const isMasterRequired = () => masterStorage.getStore() === true;
+
+/** Whether read replicas are configured for the data source */
+export const isReplicated = (dataSource: DataSource) =>
+  'replication' in dataSource.options && !!dataSource.options.replication;
@@ -0,0 +1,77 @@
+import { Injectable, NestMiddleware, Type } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { IRepositoryPolicies, IRequestContext } from '../types/request-context';
+
+interface IRequestContextStore {
+  context: IRequestContext;
+  tenantScopeSkipped?: boolean;
+}
+
+/** Async local storage that is used to share the context of the request across different method calls */
+const requestContextStorage = new AsyncLocalStorage<IRequestContextStore>();
+
+let repositoryPolicies: IRepositoryPolicies = {};
+
+/** Stores the context of the current request, e.g. its user and tenant, for the queries made while handling it */
+export class RequestContext {
+  /** Runs the callback with the given context */
+  static run<R>(context: IRequestContext, cb: () => R): R {
+    return requestContextStorage.run({ context }, cb);
+  }
+
+  /** Retrieves the context of the current request. Returns undefined outside of a request */
+  static get(): IRequestContext | undefined {
+    return requestContextStorage.getStore()?.context;
+  }
+
+  /** Adds values to the context of the current request, e.g. the user once it's authenticated by a guard. Does nothing outside of a request */
+  static set(values: IRequestContext) {
+    const context = RequestContext.get();
+    if (context) {
+      Object.assign(context, values);
+    }
+  }
+
+  /** Runs the callback without limiting queries to the tenant of the request. Meant for administrative queries */
+  static runWithoutTenantScope<R>(cb: () => R): R {
+    const store = requestContextStorage.getStore();
+    return requestContextStorage.run(
+      { context: store?.context ?? {}, tenantScopeSkipped: true },
+      cb,
+    );
+  }
+
+  /** Whether the current call runs within runWithoutTenantScope() or a method decorated with @WithoutTenantScope() */
+  static isTenantScopeSkipped() {
+    return requestContextStorage.getStore()?.tenantScopeSkipped === true;
+  }
+}
+
+/** Sets the columns that all repositories fill in and filter by. Custom repositories can override getPolicies() instead */
+export function setRepositoryPolicies(policies: IRepositoryPolicies) {
+  repositoryPolicies = policies;
+}
+
+/** Retrieves the policies set with setRepositoryPolicies() */
+export function getRepositoryPolicies(): IRepositoryPolicies {
+  return repositoryPolicies;
+}
+
+/** Creates a middleware which runs the rest of the request with the context resolved from the request */
+export function RequestContextMiddleware(
+  resolve: (request: any) => IRequestContext | Promise<IRequestContext>,
+): Type<NestMiddleware> {
+  @Injectable()
+  class RequestContextMiddlewareCls implements NestMiddleware {
+    async use(request: any, response: any, next: (error?: any) => void) {
+      let context: IRequestContext;
+      try {
+        context = await resolve(request);
+      } catch (error) {
+        return next(error);
+      }
+      RequestContext.run({ ...context }, () => next());
+    }
+  }
+  return RequestContextMiddlewareCls;
+}
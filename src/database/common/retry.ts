@@ -0,0 +1,80 @@
+import { RetryOptions } from '../types/transaction-options';
+
+/** Returns the error thrown by the driver, unwrapping TypeORM's QueryFailedError */
+const getDriverError = (error: any) => error?.driverError ?? error;
+
+/** Checks if the error is a serialization failure or deadlock on postgres and cockroachdb */
+export const isPostgresRetryableError = (error: any) =>
+  ['40001', '40P01'].includes(getDriverError(error)?.code);
+
+/** Checks if the error is a deadlock or lock wait timeout on mysql and mariadb */
+export const isMysqlRetryableError = (error: any) =>
+  [1213, 1205].includes(getDriverError(error)?.errno);
+
+/** Checks if the error is a deadlock on sql server */
+export const isSqlServerRetryableError = (error: any) =>
+  getDriverError(error)?.number === 1205 ||
+  getDriverError(error)?.originalError?.info?.number === 1205;
+
+/** Checks if the error is a deadlock or serialization failure on oracle */
+export const isOracleRetryableError = (error: any) =>
+  [60, 8177].includes(getDriverError(error)?.errorNum);
+
+/** Checks if the error is a busy or locked database error on sqlite */
+export const isSqliteRetryableError = (error: any) =>
+  ['SQLITE_BUSY', 'SQLITE_LOCKED'].includes(getDriverError(error)?.code);
+
+const retryPredicates: { [driver: string]: (error: any) => boolean } = {
+  postgres: isPostgresRetryableError,
+  'aurora-postgres': isPostgresRetryableError,
+  cockroachdb: isPostgresRetryableError,
+  mysql: isMysqlRetryableError,
+  mariadb: isMysqlRetryableError,
+  'aurora-mysql': isMysqlRetryableError,
+  mssql: isSqlServerRetryableError,
+  oracle: isOracleRetryableError,
+  sqlite: isSqliteRetryableError,
+  'better-sqlite3': isSqliteRetryableError,
+};
+
+/** Retrieves the built-in retry predicate of the driver. Drivers without one never retry */
+export function getRetryPredicate(driver: string): (error: any) => boolean {
+  return retryPredicates[driver] ?? (() => false);
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs the callback, running it again with exponential backoff as long as the error is retryable.
+ * Unless a predicate is given in the options, an error is retryable if it is retryable on any of the drivers.
+ * canRetry is checked before each retry, so that callbacks which already made lasting changes are not run again
+ */
+export const runWithRetry = async <T>(
+  cb: () => Promise<T>,
+  options: RetryOptions,
+  drivers: string[],
+  canRetry: () => boolean = () => true,
+): Promise<T> => {
+  const {
+    maxAttempts = 3,
+    initialDelay = 50,
+    maxDelay = 1000,
+    factor = 2,
+    jitter = true,
+    shouldRetry = (error: any) =>
+      drivers.some((driver) => getRetryPredicate(driver)(error)),
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await cb();
+    } catch (error) {
+      if (attempt >= maxAttempts || !canRetry() || !shouldRetry(error)) {
+        throw error;
+      }
+      const delay = Math.min(maxDelay, initialDelay * factor ** (attempt - 1));
+      await sleep(jitter ? Math.random() * delay : delay);
+    }
+  }
+};
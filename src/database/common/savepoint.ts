@@ -0,0 +1,82 @@
+import { QueryRunner } from 'typeorm';
+import { SavepointNotSupportedException } from '../exceptions/savepoint-not-supported-exception';
+
+/** Number of savepoints created so far on each query runner. Used to generate unique savepoint names */
+const savepointCounters = new WeakMap<QueryRunner, number>();
+
+/** Savepoint statements of a driver. Release is omitted for drivers that cannot release savepoints explicitly */
+interface ISavepointStatements {
+  create: (name: string) => string;
+  rollback: (name: string) => string;
+  release?: (name: string) => string;
+}
+
+const ansiStatements: ISavepointStatements = {
+  create: (name) => `SAVEPOINT ${name}`,
+  rollback: (name) => `ROLLBACK TO SAVEPOINT ${name}`,
+  release: (name) => `RELEASE SAVEPOINT ${name}`,
+};
+
+const savepointStatements: { [driver: string]: ISavepointStatements } = {
+  postgres: ansiStatements,
+  'aurora-postgres': ansiStatements,
+  cockroachdb: ansiStatements,
+  mysql: ansiStatements,
+  mariadb: ansiStatements,
+  'aurora-mysql': ansiStatements,
+  sqlite: ansiStatements,
+  'better-sqlite3': ansiStatements,
+  sqljs: ansiStatements,
+  capacitor: ansiStatements,
+  cordova: ansiStatements,
+  expo: ansiStatements,
+  nativescript: ansiStatements,
+  'react-native': ansiStatements,
+  oracle: {
+    create: (name) => `SAVEPOINT ${name}`,
+    rollback: (name) => `ROLLBACK TO SAVEPOINT ${name}`,
+  },
+  mssql: {
+    create: (name) => `SAVE TRANSACTION ${name}`,
+    rollback: (name) => `ROLLBACK TRANSACTION ${name}`,
+  },
+};
+
+const getSavepointStatements = (queryRunner: QueryRunner) => {
+  const driver = queryRunner.connection.options.type;
+  const statements = savepointStatements[driver];
+  if (!statements) {
+    throw new SavepointNotSupportedException(driver);
+  }
+  return statements;
+};
+
+/** Creates a savepoint in the active transaction of the query runner and returns its name */
+export const createSavepoint = async (queryRunner: QueryRunner) => {
+  const statements = getSavepointStatements(queryRunner);
+  const counter = (savepointCounters.get(queryRunner) ?? 0) + 1;
+  savepointCounters.set(queryRunner, counter);
+
+  const name = `savepoint_${counter}`;
+  await queryRunner.query(statements.create(name));
+  return name;
+};
+
+/** Rolls back all changes made after the savepoint was created */
+export const rollbackToSavepoint = async (
+  queryRunner: QueryRunner,
+  name: string,
+) => {
+  await queryRunner.query(getSavepointStatements(queryRunner).rollback(name));
+};
+
+/** Releases the savepoint, keeping the changes made after it was created */
+export const releaseSavepoint = async (
+  queryRunner: QueryRunner,
+  name: string,
+) => {
+  const statements = getSavepointStatements(queryRunner);
+  if (statements.release) {
+    await queryRunner.query(statements.release(name));
+  }
+};
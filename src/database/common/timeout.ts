@@ -0,0 +1,143 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { QueryRunner } from 'typeorm';
+import { TransactionTimeoutException } from '../exceptions/transaction-timeout-exception';
+import { TransactionOptions } from '../types/transaction-options';
+
+/** Statements limiting how long the statements of a transaction can run or wait for locks on the server */
+interface ITimeoutStatements {
+  set: (timeout: number) => string[];
+  /** Statements restoring the session defaults. Omitted for drivers whose settings only last until the end of the transaction */
+  reset?: string[];
+}
+
+const postgresStatements: ITimeoutStatements = {
+  set: (timeout) => [
+    `SET LOCAL statement_timeout = ${timeout}`,
+    `SET LOCAL lock_timeout = ${timeout}`,
+  ],
+};
+
+const mysqlStatements: ITimeoutStatements = {
+  set: (timeout) => [
+    `SET SESSION innodb_lock_wait_timeout = ${Math.ceil(timeout / 1000)}`,
+    `SET SESSION max_execution_time = ${timeout}`,
+  ],
+  reset: [
+    'SET SESSION innodb_lock_wait_timeout = DEFAULT',
+    'SET SESSION max_execution_time = DEFAULT',
+  ],
+};
+
+const timeoutStatements: { [driver: string]: ITimeoutStatements } = {
+  postgres: postgresStatements,
+  'aurora-postgres': postgresStatements,
+  cockroachdb: {
+    set: (timeout) => [`SET LOCAL statement_timeout = ${timeout}`],
+  },
+  mysql: mysqlStatements,
+  'aurora-mysql': mysqlStatements,
+  mariadb: {
+    set: (timeout) => [
+      `SET SESSION innodb_lock_wait_timeout = ${Math.ceil(timeout / 1000)}`,
+      `SET SESSION max_statement_time = ${timeout / 1000}`,
+    ],
+    reset: [
+      'SET SESSION innodb_lock_wait_timeout = DEFAULT',
+      'SET SESSION max_statement_time = DEFAULT',
+    ],
+  },
+  mssql: {
+    set: (timeout) => [`SET LOCK_TIMEOUT ${timeout}`],
+    reset: ['SET LOCK_TIMEOUT -1'],
+  },
+};
+
+/** Sets the server side statement and lock timeouts of the active transaction. Does nothing on drivers without such settings */
+export const setServerTimeout = async (
+  queryRunner: QueryRunner,
+  timeout: number,
+) => {
+  const statements = timeoutStatements[queryRunner.connection.options.type];
+  for (const statement of statements?.set(timeout) ?? []) {
+    await queryRunner.query(statement);
+  }
+};
+
+/** Restores the session timeouts changed by setServerTimeout() before the query runner is returned to the pool */
+export const resetServerTimeout = async (queryRunner: QueryRunner) => {
+  const statements = timeoutStatements[queryRunner.connection.options.type];
+  for (const statement of statements?.reset ?? []) {
+    await queryRunner.query(statement);
+  }
+};
+
+/** Tells the queries of a callback whether its transaction, or a transaction it is nested in, timed out */
+interface ITimeoutSignal {
+  error?: TransactionTimeoutException;
+  parent?: ITimeoutSignal;
+}
+
+const timeoutStorage = new AsyncLocalStorage<ITimeoutSignal>();
+const guardedQueryRunners = new WeakSet<QueryRunner>();
+
+/** Returns the exception of the timed out transaction the current call runs in, if any */
+const getTimeoutError = () => {
+  for (let signal = timeoutStorage.getStore(); signal; signal = signal.parent) {
+    if (signal.error) {
+      return signal.error;
+    }
+  }
+  return undefined;
+};
+
+/** Makes the query runner reject the queries of callbacks whose transaction timed out. Queries of other callers, like the rollback, are passed through */
+const guardQueryRunner = (queryRunner: QueryRunner) => {
+  if (guardedQueryRunners.has(queryRunner)) {
+    return;
+  }
+  guardedQueryRunners.add(queryRunner);
+  const query = queryRunner.query.bind(queryRunner);
+  queryRunner.query = ((...args: Parameters<QueryRunner['query']>) => {
+    const error = getTimeoutError();
+    return error ? Promise.reject(error) : query(...args);
+  }) as QueryRunner['query'];
+};
+
+/**
+ * Runs the callback, rejecting with TransactionTimeoutException once the timeout of the options is passed.
+ * The callback itself cannot be cancelled, but from then on its queries on the query runner are rejected with the same exception,
+ * so that none of them runs after the transaction is rolled back
+ */
+export const runWithTimeout = async <T>(
+  cb: () => Promise<T>,
+  options: TransactionOptions,
+  queryRunner: QueryRunner,
+): Promise<T> => {
+  if (!options.timeout) {
+    return await cb();
+  }
+
+  guardQueryRunner(queryRunner);
+  const signal: ITimeoutSignal = { parent: timeoutStorage.getStore() };
+  const promise = timeoutStorage.run(signal, cb);
+  // The callback may still reject after the timeout, which must not end up as an unhandled rejection
+  promise.catch(() => undefined);
+
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      signal.error = new TransactionTimeoutException(
+        options.connection,
+        options.timeout,
+        options.name,
+      );
+      reject(signal.error);
+    }, options.timeout);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,129 @@
+import { Logger, LoggerService } from '@nestjs/common';
+import {
+  ITransactionEvent,
+  ITransactionSpan,
+  ITransactionTracer,
+  TransactionEventListener,
+  TransactionEventType,
+  TransactionSpanStatusCode,
+} from '../types/transaction-events';
+
+const listeners = new Set<TransactionEventListener>();
+
+const logger = new Logger('TypeOrmTransactionModule');
+
+let lastTransactionId = 0;
+
+/** Registers a listener receiving the lifecycle events of all transactions. Returns a function removing the listener */
+export function addTransactionEventListener(
+  listener: TransactionEventListener,
+) {
+  listeners.add(listener);
+  return () => removeTransactionEventListener(listener);
+}
+
+/** Removes a listener registered with addTransactionEventListener() */
+export function removeTransactionEventListener(
+  listener: TransactionEventListener,
+) {
+  listeners.delete(listener);
+}
+
+/** Passes the event to the listeners. Errors thrown by listeners are logged so that they do not affect the transaction */
+const emitTransactionEvent = (event: ITransactionEvent) => {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.error(
+        `Transaction event listener failed: ${error?.message ?? error}`,
+        error?.stack,
+      );
+    }
+  }
+};
+
+/** Creates a function emitting the lifecycle events of a single transaction. Durations are measured from its creation */
+export const createTransactionEventEmitter = (
+  connection: string,
+  name: string | undefined,
+  depth: number,
+) => {
+  const id = ++lastTransactionId;
+  const startedAt = Date.now();
+  return (type: TransactionEventType, error?: any) =>
+    emitTransactionEvent({
+      type,
+      id,
+      connection,
+      name,
+      depth,
+      duration: Date.now() - startedAt,
+      error,
+    });
+};
+
+/** Creates a listener writing transaction events to the given logger. Rollbacks are logged as warnings, other events as debug messages */
+export function createTransactionEventLogger(
+  eventLogger: LoggerService = logger,
+): TransactionEventListener {
+  return (event) => {
+    const message = `Transaction ${event.id}${
+      event.name ? ` ${event.name}` : ''
+    } on connection ${event.connection} (depth ${event.depth}): ${event.type}${
+      event.type === 'start' ? '' : ` after ${event.duration}ms`
+    }`;
+
+    if (event.type === 'rollback') {
+      eventLogger.warn(
+        `${message}${
+          event.error ? `, ${event.error.message ?? event.error}` : ''
+        }`,
+      );
+    } else {
+      eventLogger.debug?.(message);
+    }
+  };
+}
+
+/** Creates a listener tracing every transaction as a span of the tracer. Spans end once the transaction is committed or rolled back */
+export function createTransactionTracingListener(
+  tracer: ITransactionTracer,
+): TransactionEventListener {
+  const spans = new Map<number, ITransactionSpan>();
+
+  return (event) => {
+    if (event.type === 'start') {
+      spans.set(
+        event.id,
+        tracer.startSpan(`transaction ${event.name ?? event.connection}`, {
+          attributes: {
+            'transaction.connection': event.connection,
+            'transaction.depth': event.depth,
+            ...(event.name ? { 'transaction.name': event.name } : {}),
+          },
+        }),
+      );
+      return;
+    }
+
+    const span = spans.get(event.id);
+    if (!span || event.type === 'release') {
+      return;
+    }
+    spans.delete(event.id);
+    span.setAttribute('transaction.outcome', event.type);
+    if (event.type === 'rollback') {
+      if (event.error) {
+        span.recordException(event.error);
+      }
+      span.setStatus({
+        code: TransactionSpanStatusCode.ERROR,
+        message: event.error?.message,
+      });
+    } else {
+      span.setStatus({ code: TransactionSpanStatusCode.OK });
+    }
+    span.end();
+  };
+}
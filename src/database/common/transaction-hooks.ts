@@ -0,0 +1,143 @@
+import { Logger } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import {
+  ITransactionHooks,
+  TransactionHookType,
+  TransactionStatus,
+} from '../types/transaction-hooks';
+import { asyncLocalStorage } from './async-local-storage';
+import { DEFAULT_DATASOURCE_NAME } from './datasource-storage';
+
+/** Hooks registered for each active transaction, keyed by its transactional entity manager */
+const transactionHooks = new WeakMap<EntityManager, ITransactionHooks>();
+
+const logger = new Logger('TypeOrmTransactionModule');
+
+let hookErrorHandler = (error: any, type: TransactionHookType) => {
+  logger.error(
+    `Transaction ${type} hook failed: ${error?.message ?? error}`,
+    error?.stack,
+  );
+};
+
+/** Overrides how errors thrown by transaction hooks are reported. By default, they are logged with Nest logger */
+export function setTransactionHookErrorHandler(
+  handler: (error: any, type: TransactionHookType) => void,
+) {
+  hookErrorHandler = handler;
+}
+
+/** Retrieves the hooks of the active transaction of the connection. Returns undefined if there is no active transaction */
+const getActiveHooks = (connection: string) => {
+  const manager = asyncLocalStorage.getStore()?.[connection];
+  if (!manager) {
+    return undefined;
+  }
+  if (!transactionHooks.has(manager)) {
+    transactionHooks.set(manager, {
+      commit: [],
+      rollback: [],
+      complete: [],
+    });
+  }
+  return transactionHooks.get(manager);
+};
+
+/** Runs the hook, reporting its error instead of throwing it */
+const runHook = async (
+  type: TransactionHookType,
+  hook: () => any,
+): Promise<void> => {
+  try {
+    await hook();
+  } catch (error) {
+    hookErrorHandler(error, type);
+  }
+};
+
+/** Runs the callback after the active transaction is committed. If there is no active transaction, it runs right away */
+export async function runOnTransactionCommit(
+  cb: () => any,
+  connection: string = DEFAULT_DATASOURCE_NAME,
+) {
+  const hooks = getActiveHooks(connection);
+  if (hooks) {
+    hooks.commit.push(cb);
+  } else {
+    await runHook('commit', cb);
+  }
+}
+
+/** Runs the callback after the active transaction is rolled back. If there is no active transaction, it is never run */
+export async function runOnTransactionRollback(
+  cb: (error: any) => any,
+  connection: string = DEFAULT_DATASOURCE_NAME,
+) {
+  getActiveHooks(connection)?.rollback.push(cb);
+}
+
+/** Runs the callback after the active transaction is either committed or rolled back. If there is no active transaction, it runs right away */
+export async function runOnTransactionComplete(
+  cb: (status: TransactionStatus) => any,
+  connection: string = DEFAULT_DATASOURCE_NAME,
+) {
+  const hooks = getActiveHooks(connection);
+  if (hooks) {
+    hooks.complete.push(cb);
+  } else {
+    await runHook('complete', () => cb(TransactionStatus.COMMITTED));
+  }
+}
+
+/**
+ * Runs the hooks registered for the transaction of the entity manager in registration order.
+ * Used by transaction() once the transaction is completed, it should not be called manually
+ */
+export async function executeTransactionHooks(
+  manager: EntityManager,
+  status: TransactionStatus,
+  error?: any,
+) {
+  const hooks = transactionHooks.get(manager);
+  if (!hooks) {
+    return;
+  }
+  transactionHooks.delete(manager);
+
+  if (status === TransactionStatus.COMMITTED) {
+    for (const hook of hooks.commit) {
+      await runHook('commit', hook);
+    }
+  } else {
+    for (const hook of hooks.rollback) {
+      await runHook('rollback', () => hook(error));
+    }
+  }
+  for (const hook of hooks.complete) {
+    await runHook('complete', () => hook(status));
+  }
+}
+
+/**
+ * Moves the hooks registered for the entity manager of a released savepoint to the manager of the enclosing transaction, so that they run once it is completed.
+ * Used by transaction(), it should not be called manually
+ */
+export function mergeTransactionHooks(
+  manager: EntityManager,
+  parentManager: EntityManager,
+) {
+  const hooks = transactionHooks.get(manager);
+  if (!hooks) {
+    return;
+  }
+  transactionHooks.delete(manager);
+
+  const parentHooks = transactionHooks.get(parentManager);
+  if (!parentHooks) {
+    transactionHooks.set(parentManager, hooks);
+    return;
+  }
+  parentHooks.commit.push(...hooks.commit);
+  parentHooks.rollback.push(...hooks.rollback);
+  parentHooks.complete.push(...hooks.complete);
+}
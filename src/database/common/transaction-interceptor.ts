@@ -0,0 +1,78 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  Type,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { from, lastValueFrom, Observable } from 'rxjs';
+import { ITransactionInterceptorOptions } from '../types/transaction-interceptor-options';
+import { TransactionOptions } from '../types/transaction-options';
+import { NON_TRANSACTIONAL_KEY, TRANSACTIONAL_ROUTE_KEY } from './constants';
+import { DEFAULT_DATASOURCE_NAME } from './datasource-storage';
+import { transaction } from './transaction';
+
+const mutatingHttpMethods = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** Whether the request handled in the context changes data, i.e. a mutating HTTP request or a GraphQL mutation */
+const isMutation = (context: ExecutionContext) => {
+  const type = context.getType<string>();
+  if (type === 'http') {
+    const method: string = context.switchToHttp().getRequest()?.method;
+    return mutatingHttpMethods.includes(method?.toUpperCase());
+  }
+  if (type === 'graphql') {
+    // Resolvers receive root, args, context and info arguments
+    return context.getArgByIndex(3)?.operation?.operation === 'mutation';
+  }
+  return false;
+};
+
+/**
+ * Creates an interceptor which runs the whole request pipeline of a route in a transaction.
+ * Routes marked with @TransactionalRoute() and, if enabled, mutating requests are wrapped.
+ * Works with HTTP controllers, GraphQL resolvers and microservice message handlers
+ */
+export function TransactionInterceptor(
+  options: ITransactionInterceptorOptions = {},
+): Type<NestInterceptor> {
+  @Injectable()
+  class TransactionInterceptorCls implements NestInterceptor {
+    constructor(public reflector: Reflector) {}
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+      const targets = [context.getHandler(), context.getClass()];
+      const routeOptions = this.reflector.getAllAndOverride<
+        string | TransactionOptions
+      >(TRANSACTIONAL_ROUTE_KEY, targets);
+      const nonTransactional = this.reflector.getAllAndOverride<boolean>(
+        NON_TRANSACTIONAL_KEY,
+        targets,
+      );
+
+      if (
+        nonTransactional ||
+        (!routeOptions && !(options.mutatingMethods && isMutation(context)))
+      ) {
+        return next.handle();
+      }
+
+      const transactionOptions =
+        routeOptions ?? options.transactionOptions ?? DEFAULT_DATASOURCE_NAME;
+      return from(
+        transaction(
+          async () =>
+            await lastValueFrom(next.handle(), { defaultValue: undefined }),
+          {
+            name: `${context.getClass().name}.${context.getHandler().name}`,
+            ...(typeof transactionOptions === 'string'
+              ? { connection: transactionOptions }
+              : transactionOptions),
+          },
+        ),
+      );
+    }
+  }
+  return TransactionInterceptorCls;
+}
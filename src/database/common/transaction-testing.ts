@@ -0,0 +1,63 @@
+import { EntityManager, QueryRunner } from 'typeorm';
+import {
+  DEFAULT_DATASOURCE_NAME,
+  DataSourceStorage,
+} from './datasource-storage';
+
+/**
+ * Wraps each test in a transaction that is rolled back once the test is completed.
+ * While a test transaction is active, repositories run their queries in it and transactional calls are nested in it via savepoints
+ */
+export class TypeOrmTransactionTesting {
+  private static readonly queryRunnerStore = new Map<string, QueryRunner>();
+
+  /** Starts the test transaction of the connection */
+  static async beginTestTransaction(
+    connection: string = DEFAULT_DATASOURCE_NAME,
+  ): Promise<void> {
+    if (this.queryRunnerStore.has(connection)) {
+      await this.rollbackTestTransaction(connection);
+    }
+    const queryRunner =
+      DataSourceStorage.getDataSource(connection).createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+    this.queryRunnerStore.set(connection, queryRunner);
+  }
+
+  /** Rolls back the test transaction of the connection, undoing every change made during the test */
+  static async rollbackTestTransaction(
+    connection: string = DEFAULT_DATASOURCE_NAME,
+  ): Promise<void> {
+    const queryRunner = this.queryRunnerStore.get(connection);
+    if (!queryRunner) {
+      return;
+    }
+    this.queryRunnerStore.delete(connection);
+    try {
+      await queryRunner.rollbackTransaction();
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /** Retrieves the entity manager of the test transaction of the connection. Returns undefined if there is none */
+  static getEntityManager(connection: string): EntityManager | undefined {
+    return this.queryRunnerStore.get(connection)?.manager;
+  }
+
+  /** Registers jest beforeEach and afterEach hooks that begin and roll back a test transaction on each connection */
+  static setupJest(connections: string[] = [DEFAULT_DATASOURCE_NAME]) {
+    const { beforeEach, afterEach } = globalThis as any;
+    beforeEach(async () => {
+      for (const connection of connections) {
+        await this.beginTestTransaction(connection);
+      }
+    });
+    afterEach(async () => {
+      for (const connection of connections) {
+        await this.rollbackTestTransaction(connection);
+      }
+    });
+  }
+}
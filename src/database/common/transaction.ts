@@ -1,34 +1,498 @@
+import { Logger } from '@nestjs/common';
+import { EntityManager, QueryRunner } from 'typeorm';
 import { IAsyncLocalStore } from '../types/async-local-store';
+import { Propagation, TransactionOptions } from '../types/transaction-options';
+import { TransactionStatus } from '../types/transaction-hooks';
+import { IllegalTransactionStateException } from '../exceptions/illegal-transaction-state-exception';
+import { IncompatibleTransactionException } from '../exceptions/incompatible-transaction-exception';
+import { ReadOnlyTransactionNotSupportedException } from '../exceptions/read-only-transaction-not-supported-exception';
 import { asyncLocalStorage } from './async-local-storage';
 import {
   DEFAULT_DATASOURCE_NAME,
   DataSourceStorage,
 } from './datasource-storage';
+import {
+  createSavepoint,
+  releaseSavepoint,
+  rollbackToSavepoint,
+} from './savepoint';
+import { runWithRetry } from './retry';
+import {
+  resetServerTimeout,
+  runWithTimeout,
+  setServerTimeout,
+} from './timeout';
+import { createTransactionEventEmitter } from './transaction-events';
+import {
+  executeTransactionHooks,
+  mergeTransactionHooks,
+} from './transaction-hooks';
+import { TypeOrmTransactionTesting } from './transaction-testing';
 
-/** Runs the callback within a transaction. Any subsequent calls will also run queries in a transaction */
-export const transaction = async <T>(
+const logger = new Logger('TypeOrmTransactionModule');
+
+/** Options of the transactions started by this module, kept until their query runners are garbage collected */
+const activeTransactionOptions = new WeakMap<QueryRunner, TransactionOptions>();
+
+/** Database transactions in progress on each connection, settled once their query runners are released */
+const inFlightTransactions = new Map<string, Set<Promise<unknown>>>();
+
+/** Number of savepoints currently open on each query runner. Reported as the depth of transaction events */
+const savepointDepths = new WeakMap<QueryRunner, number>();
+
+/** Drivers on which read-only mode has to be set before the transaction is started */
+const readOnlyBeforeStartDrivers = ['mysql', 'mariadb', 'aurora-mysql'];
+
+/**
+ * Drivers on which read-only mode has to be set right after the transaction is started.
+ * Oracle is missing since it only accepts SET TRANSACTION READ ONLY as the first statement, while TypeORM always sets the isolation level first
+ */
+const readOnlyAfterStartDrivers = [
+  'postgres',
+  'aurora-postgres',
+  'cockroachdb',
+];
+
+/** Starts a transaction on the query runner, applying isolation level and read-only mode */
+const startTransaction = async (
+  queryRunner: QueryRunner,
+  options: TransactionOptions,
+) => {
+  const driver = queryRunner.connection.options.type;
+  if (
+    options.readOnly &&
+    !readOnlyBeforeStartDrivers.includes(driver) &&
+    !readOnlyAfterStartDrivers.includes(driver)
+  ) {
+    throw new ReadOnlyTransactionNotSupportedException(driver);
+  }
+
+  if (options.readOnly && readOnlyBeforeStartDrivers.includes(driver)) {
+    await queryRunner.query('SET TRANSACTION READ ONLY');
+  }
+  await queryRunner.startTransaction(options.isolationLevel);
+  if (options.readOnly && readOnlyAfterStartDrivers.includes(driver)) {
+    await queryRunner.query('SET TRANSACTION READ ONLY');
+  }
+  if (options.timeout) {
+    await setServerTimeout(queryRunner, options.timeout);
+  }
+  activeTransactionOptions.set(queryRunner, options);
+};
+
+/** Ensures that the options of a joining call do not conflict with the active transaction */
+const assertCompatible = (
+  manager: EntityManager,
+  options: TransactionOptions,
+) => {
+  const activeOptions = activeTransactionOptions.get(manager.queryRunner);
+  if (!activeOptions) {
+    return;
+  }
+  if (
+    options.isolationLevel &&
+    options.isolationLevel !== activeOptions.isolationLevel
+  ) {
+    throw new IncompatibleTransactionException(
+      options.connection,
+      `requested isolation level ${
+        options.isolationLevel
+      } but active transaction uses ${
+        activeOptions.isolationLevel ?? 'the database default'
+      }`,
+    );
+  }
+  if (options.readOnly === false && activeOptions.readOnly) {
+    throw new IncompatibleTransactionException(
+      options.connection,
+      'requested a read-write transaction but active transaction is read-only',
+    );
+  }
+};
+
+/** Restores the session timeouts of the query runner if needed and releases it */
+const releaseQueryRunner = async (
+  queryRunner: QueryRunner,
+  options: TransactionOptions,
+) => {
+  try {
+    if (options.timeout && !queryRunner.isReleased) {
+      await resetServerTimeout(queryRunner);
+    }
+  } finally {
+    await queryRunner.release();
+  }
+};
+
+/** Starts a timer logging a warning once the transaction runs longer than its warning threshold. Returns a function stopping the timer */
+const watchSlowTransaction = (options: TransactionOptions) => {
+  if (!options.warningThreshold) {
+    return () => undefined;
+  }
+  const timer = setTimeout(() => {
+    logger.warn(
+      `Transaction${options.name ? ` ${options.name}` : ''} on connection ${
+        options.connection
+      } is running for more than ${options.warningThreshold}ms`,
+    );
+  }, options.warningThreshold);
+  timer.unref();
+  return () => clearTimeout(timer);
+};
+
+/** Increases the savepoint depth of the query runner. Returns the new depth and a function restoring the previous one */
+const enterSavepointDepth = (queryRunner: QueryRunner) => {
+  const previousDepth = savepointDepths.get(queryRunner) ?? 0;
+  savepointDepths.set(queryRunner, previousDepth + 1);
+  return {
+    depth: previousDepth + 1,
+    leave: () => savepointDepths.set(queryRunner, previousDepth),
+  };
+};
+
+/**
+ * Emulates a new transaction inside the test transaction with a savepoint.
+ * The callback gets its own entity manager so that its hooks are run once the savepoint is released or rolled back
+ */
+const runInTestTransaction = async <T>(
   cb: () => Promise<T>,
-  connection: string = DEFAULT_DATASOURCE_NAME,
+  options: TransactionOptions,
+  testManager: EntityManager,
+) => {
+  const { connection } = options;
+  const queryRunner = testManager.queryRunner;
+  const parentManager = queryRunner.manager;
+  const manager = testManager.connection.createEntityManager(queryRunner);
+  // Creating the entity manager replaces the manager of the query runner, which is restored once the savepoint is completed
+  const restoreManager = () =>
+    Object.assign(queryRunner, { manager: parentManager });
+  const { depth, leave } = enterSavepointDepth(queryRunner);
+  const emit = createTransactionEventEmitter(connection, options.name, depth);
+  let savepoint: string;
+  try {
+    savepoint = await createSavepoint(queryRunner);
+  } catch (error) {
+    restoreManager();
+    leave();
+    throw error;
+  }
+  emit('start');
+
+  const store: IAsyncLocalStore = {
+    ...asyncLocalStorage.getStore(),
+    [connection]: manager,
+  };
+
+  let result: T;
+  try {
+    result = await asyncLocalStorage.run(store, async () => {
+      return await runWithTimeout(cb, options, queryRunner);
+    });
+    await releaseSavepoint(queryRunner, savepoint);
+    restoreManager();
+    leave();
+    emit('commit');
+  } catch (error) {
+    try {
+      await rollbackToSavepoint(queryRunner, savepoint);
+    } finally {
+      restoreManager();
+      leave();
+      emit('rollback', error);
+    }
+    await executeTransactionHooks(
+      manager,
+      TransactionStatus.ROLLED_BACK,
+      error,
+    );
+    throw error;
+  }
+
+  await executeTransactionHooks(manager, TransactionStatus.COMMITTED);
+  return result;
+};
+
+/** Runs the callback in a database transaction opened on a fresh query runner */
+const runInDatabaseTransaction = async <T>(
+  cb: () => Promise<T>,
+  options: TransactionOptions,
 ) => {
+  const { connection } = options;
   const queryRunner =
     DataSourceStorage.getDataSource(connection).createQueryRunner();
   await queryRunner.connect();
-  await queryRunner.startTransaction();
+
+  // Kept since savepoints replace queryRunner.manager with their own entity managers
+  const manager = queryRunner.manager;
+  const emit = createTransactionEventEmitter(connection, options.name, 0);
+  try {
+    await startTransaction(queryRunner, options);
+  } catch (error) {
+    // The transaction may already be started when setting read-only mode or timeouts fails, and release() does not roll it back
+    try {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+    } finally {
+      await releaseQueryRunner(queryRunner, options);
+    }
+    throw error;
+  }
+  emit('start');
 
   const store: IAsyncLocalStore = {
-    [connection]: queryRunner.manager,
+    ...asyncLocalStorage.getStore(),
+    [connection]: manager,
   };
 
+  const stopWatching = watchSlowTransaction(options);
+  let result: T;
   try {
-    const result = await asyncLocalStorage.run(store, async () => {
-      return await cb();
+    result = await asyncLocalStorage.run(store, async () => {
+      return await runWithTimeout(cb, options, queryRunner);
     });
     await queryRunner.commitTransaction();
+    emit('commit');
+  } catch (error) {
+    stopWatching();
+    try {
+      await queryRunner.rollbackTransaction();
+    } finally {
+      emit('rollback', error);
+      await releaseQueryRunner(queryRunner, options);
+      emit('release');
+    }
+    await executeTransactionHooks(
+      manager,
+      TransactionStatus.ROLLED_BACK,
+      error,
+    );
+    throw error;
+  }
+
+  stopWatching();
+  await releaseQueryRunner(queryRunner, options);
+  emit('release');
+  await executeTransactionHooks(manager, TransactionStatus.COMMITTED);
+  return result;
+};
+
+/** Runs the callback in a new transaction, keeping track of it until its query runner is released */
+const runInNewTransaction = async <T>(
+  cb: () => Promise<T>,
+  options: TransactionOptions,
+) => {
+  const { connection } = options;
+  const testManager = TypeOrmTransactionTesting.getEntityManager(connection);
+  if (testManager) {
+    return await runInTestTransaction(cb, options, testManager);
+  }
+
+  if (!inFlightTransactions.has(connection)) {
+    inFlightTransactions.set(connection, new Set());
+  }
+  const transactions = inFlightTransactions.get(connection);
+  const promise = runInDatabaseTransaction(cb, options);
+  const untrack = () => transactions.delete(promise);
+  transactions.add(promise);
+  promise.then(untrack, untrack);
+  return await promise;
+};
+
+/** Returns the number of database transactions in progress on the connection */
+export const getActiveTransactionCount = (
+  connection: string = DEFAULT_DATASOURCE_NAME,
+) => inFlightTransactions.get(connection)?.size ?? 0;
+
+/**
+ * Waits until no database transaction is in progress on the connection.
+ * Resolves to false if there are still transactions in progress once the timeout in milliseconds is passed
+ */
+export const waitForActiveTransactions = async (
+  connection: string = DEFAULT_DATASOURCE_NAME,
+  timeout = Infinity,
+): Promise<boolean> => {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const transactions = inFlightTransactions.get(connection);
+    if (!transactions?.size) {
+      return true;
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return false;
+    }
+
+    let timer: NodeJS.Timeout;
+    await Promise.race([
+      Promise.allSettled([...transactions]),
+      new Promise((resolve) => {
+        if (remaining !== Infinity) {
+          timer = setTimeout(resolve, remaining);
+        }
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Runs the callback in a savepoint of the active transaction. Only the changes made by the callback are rolled back on error.
+ * The callback gets its own entity manager: its hooks are handed to the enclosing transaction once the savepoint is released, or run as rolled back right away
+ */
+const runInNestedTransaction = async <T>(
+  cb: () => Promise<T>,
+  options: TransactionOptions,
+  manager: EntityManager,
+) => {
+  const queryRunner = manager.queryRunner;
+  const parentManager = queryRunner.manager;
+  const nestedManager = manager.connection.createEntityManager(queryRunner);
+  // Creating the entity manager replaces the manager of the query runner, which is restored once the savepoint is completed
+  const restoreManager = () =>
+    Object.assign(queryRunner, { manager: parentManager });
+  const { depth, leave } = enterSavepointDepth(queryRunner);
+  const emit = createTransactionEventEmitter(
+    options.connection,
+    options.name,
+    depth,
+  );
+  let savepoint: string;
+  try {
+    savepoint = await createSavepoint(queryRunner);
+  } catch (error) {
+    leave();
+    throw error;
+  }
+  emit('start');
+
+  const store: IAsyncLocalStore = {
+    ...asyncLocalStorage.getStore(),
+    [options.connection]: nestedManager,
+  };
+
+  try {
+    const result = await asyncLocalStorage.run(store, cb);
+    await releaseSavepoint(queryRunner, savepoint);
+    restoreManager();
+    leave();
+    emit('commit');
+    mergeTransactionHooks(nestedManager, manager);
     return result;
   } catch (error) {
-    await queryRunner.rollbackTransaction();
+    try {
+      await rollbackToSavepoint(queryRunner, savepoint);
+    } finally {
+      restoreManager();
+      leave();
+      emit('rollback', error);
+    }
+    // The work of the savepoint is undone even if the enclosing transaction commits
+    await executeTransactionHooks(
+      nestedManager,
+      TransactionStatus.ROLLED_BACK,
+      error,
+    );
     throw error;
-  } finally {
-    await queryRunner.release();
   }
 };
+
+/** Runs the callback on a single connection according to the propagation of the options */
+const runWithPropagation = async <T>(
+  cb: () => Promise<T>,
+  options: TransactionOptions,
+) => {
+  const { connection, propagation } = options;
+  const activeManager = asyncLocalStorage.getStore()?.[connection];
+
+  switch (propagation) {
+    case Propagation.REQUIRES_NEW:
+      return await runInNewTransaction(cb, options);
+    case Propagation.NESTED:
+      if (!activeManager) {
+        return await runInNewTransaction(cb, options);
+      }
+      assertCompatible(activeManager, options);
+      return await runInNestedTransaction(cb, options, activeManager);
+    case Propagation.SUPPORTS:
+      if (activeManager) {
+        assertCompatible(activeManager, options);
+      }
+      return await cb();
+    case Propagation.MANDATORY:
+      if (!activeManager) {
+        throw new IllegalTransactionStateException(propagation, connection);
+      }
+      assertCompatible(activeManager, options);
+      return await cb();
+    case Propagation.NEVER:
+      if (activeManager) {
+        throw new IllegalTransactionStateException(propagation, connection);
+      }
+      return await cb();
+    default:
+      if (!activeManager) {
+        return await runInNewTransaction(cb, options);
+      }
+      assertCompatible(activeManager, options);
+      return await cb();
+  }
+};
+
+/** Propagation modes that start a new transaction when no transaction is active */
+const startingPropagations = [
+  Propagation.REQUIRED,
+  Propagation.REQUIRES_NEW,
+  Propagation.NESTED,
+];
+
+/**
+ * Runs the callback within a transaction. Any subsequent calls will also run queries in a transaction
+ *
+ * @param cb callback to run
+ * @param options name of the connection configured in forRoot() method or transaction options
+ */
+export const transaction = async <T>(
+  cb: () => Promise<T>,
+  options: string | TransactionOptions = DEFAULT_DATASOURCE_NAME,
+): Promise<T> => {
+  const resolvedOptions: TransactionOptions =
+    typeof options === 'string' ? { connection: options } : { ...options };
+  resolvedOptions.propagation ??= resolvedOptions.nested
+    ? Propagation.NESTED
+    : Propagation.REQUIRED;
+
+  const { connections, retry, ...connectionOptions } = resolvedOptions;
+  const connectionNames = connections?.length
+    ? connections
+    : [resolvedOptions.connection ?? DEFAULT_DATASOURCE_NAME];
+
+  // The first connection is wrapped innermost, so transactions are committed in the given order
+  let committed = false;
+  const run = connectionNames.reduce<() => Promise<T>>(
+    (next, connection, index) => async () => {
+      const result = await runWithPropagation(next, {
+        ...connectionOptions,
+        connection,
+      });
+      committed ||= index < connectionNames.length - 1;
+      return result;
+    },
+    cb,
+  );
+
+  // Retries only happen at the outermost transaction boundary, since the whole callback has to run again from the start
+  const store = asyncLocalStorage.getStore() ?? {};
+  if (
+    !retry ||
+    Object.keys(store).length > 0 ||
+    !startingPropagations.includes(resolvedOptions.propagation)
+  ) {
+    return await run();
+  }
+  const drivers = connectionNames.map(
+    (connection) => DataSourceStorage.getDataSource(connection).options.type,
+  );
+  // Once a connection is committed, running the callback again would apply its changes twice
+  return await runWithRetry(run, retry, drivers, () => !committed);
+};
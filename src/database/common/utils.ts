@@ -1,17 +1,30 @@
-import { EntitySchema } from 'typeorm';
+import { DataSource, EntitySchema } from 'typeorm';
 import { Provider } from '@nestjs/common';
 import { TransactionalRepository } from '../transactional.repository';
 import {
   DEFAULT_DATASOURCE_NAME,
   DataSourceStorage,
 } from './datasource-storage';
+import { TRANSACTIONAL_ENTITY_REPOSITORY_KEY } from './constants';
+import { EntityNotRegisteredException } from '../exceptions/entity-not-registered-exception';
+import {
+  ConnectionOptions,
+  TypeOrmTransactionModuleAsyncOptions,
+  TypeOrmTransactionOptionsFactory,
+} from '../types/connection-options';
+import { IOutboxModuleOptions, IOutboxPublisher } from '../types/outbox';
+import { OutboxService } from '../outbox/outbox.service';
+import { OutboxRelay } from '../outbox/outbox-relay';
+import { DataSourceLifecycle } from './datasource-lifecycle';
+import { TypeOrmTransactionHealthIndicator } from './health-indicator';
 
 /** Retrieves repository injection token */
 export function getRepositoryInjectionToken(
   entity: Function | EntitySchema<any>,
+  dataSource: string = DEFAULT_DATASOURCE_NAME,
 ) {
   const name = entity instanceof Function ? entity.name : entity.options.name;
-  return `${name}_TransactionalRepository`;
+  return `${dataSource}_${name}_TransactionalRepository`;
 }
 
 /** Retrieves data source injection token */
@@ -21,18 +34,148 @@ export function getDataSourceInjectionToken(
   return `${dataSource}_TransactionalDataSource`;
 }
 
-/** Creates providers for all entities */
+/** Retrieves the injection token of the connection options passed to forRootAsync() method */
+export function getConnectionOptionsInjectionToken(
+  dataSource: string = DEFAULT_DATASOURCE_NAME,
+) {
+  return `${dataSource}_TransactionalConnectionOptions`;
+}
+
+/** Retrieves the injection token of the provider destroying the data source on shutdown */
+export function getDataSourceLifecycleInjectionToken(
+  dataSource: string = DEFAULT_DATASOURCE_NAME,
+) {
+  return `${dataSource}_TransactionalDataSourceLifecycle`;
+}
+
+/** Ensures that the entity is part of the data source's entities so that misconfigurations fail at boot */
+function assertEntityRegistered(
+  dataSource: DataSource,
+  entity: Function | EntitySchema<any>,
+  ds: string,
+) {
+  if (!dataSource.hasMetadata(entity)) {
+    throw new EntityNotRegisteredException(
+      entity instanceof Function ? entity.name : entity.options.name,
+      ds,
+    );
+  }
+}
+
+/** Creates providers for all entities and custom repositories */
 export function createProviders(
   entities: Array<Function | EntitySchema<any>>,
   ds: string = DEFAULT_DATASOURCE_NAME,
 ): Provider[] {
-  return entities.map((entity) => {
+  return entities.map((entity): Provider => {
+    const repositoryEntity =
+      entity instanceof Function
+        ? Reflect.getMetadata(TRANSACTIONAL_ENTITY_REPOSITORY_KEY, entity)
+        : undefined;
+    if (repositoryEntity) {
+      const CustomRepository = entity as typeof TransactionalRepository;
+      return {
+        useFactory: (dataSource: DataSource) => {
+          assertEntityRegistered(dataSource, repositoryEntity, ds);
+          return new CustomRepository(dataSource, repositoryEntity, ds);
+        },
+        inject: [getDataSourceInjectionToken(ds)],
+        provide: CustomRepository,
+      };
+    }
     return {
-      useFactory: () => {
-        const dataSource = DataSourceStorage.getDataSource(ds);
+      useFactory: (dataSource: DataSource) => {
+        assertEntityRegistered(dataSource, entity, ds);
         return new TransactionalRepository(dataSource, entity, ds);
       },
-      provide: getRepositoryInjectionToken(entity),
+      inject: [getDataSourceInjectionToken(ds)],
+      provide: getRepositoryInjectionToken(entity, ds),
     };
   });
 }
+
+/** Creates the provider resolving the connection options passed to forRootAsync() method */
+function createConnectionOptionsProvider(
+  options: TypeOrmTransactionModuleAsyncOptions,
+): Provider {
+  const provide = getConnectionOptionsInjectionToken(options.name);
+  if (options.useFactory) {
+    return {
+      useFactory: options.useFactory,
+      inject: options.inject ?? [],
+      provide,
+    };
+  }
+  return {
+    useFactory: async (factory: TypeOrmTransactionOptionsFactory) =>
+      await factory.createTypeOrmTransactionOptions(),
+    inject: [options.useExisting ?? options.useClass],
+    provide,
+  };
+}
+
+/** Creates providers that build, initialize and register the data source of forRootAsync() method */
+export function createAsyncProviders(
+  options: TypeOrmTransactionModuleAsyncOptions,
+): Provider[] {
+  const name = options.name ?? DEFAULT_DATASOURCE_NAME;
+  const providers: Provider[] = [
+    createConnectionOptionsProvider(options),
+    {
+      useFactory: async (connectionOptions: ConnectionOptions) => {
+        const dataSource = new DataSource(connectionOptions);
+        await dataSource.initialize();
+        DataSourceStorage.setDataSource(name, dataSource);
+        return dataSource;
+      },
+      inject: [getConnectionOptionsInjectionToken(name)],
+      provide: getDataSourceInjectionToken(name),
+    },
+    {
+      useFactory: (
+        dataSource: DataSource,
+        connectionOptions: ConnectionOptions,
+      ) =>
+        new DataSourceLifecycle(
+          name,
+          dataSource,
+          connectionOptions.shutdownTimeout,
+        ),
+      inject: [
+        getDataSourceInjectionToken(name),
+        getConnectionOptionsInjectionToken(name),
+      ],
+      provide: getDataSourceLifecycleInjectionToken(name),
+    },
+    TypeOrmTransactionHealthIndicator,
+  ];
+  if (options.useClass) {
+    providers.push({
+      useClass: options.useClass,
+      provide: options.useClass,
+    });
+  }
+  return providers;
+}
+
+/** Creates the outbox service and, if a publisher is given, the outbox relay providers */
+export function createOutboxProviders(
+  options: IOutboxModuleOptions,
+): Provider[] {
+  const { publisher, ...relayOptions } = options;
+  const providers: Provider[] = [
+    {
+      useFactory: () => new OutboxService(relayOptions.connection),
+      provide: OutboxService,
+    },
+  ];
+  if (publisher) {
+    providers.push(publisher, {
+      useFactory: (outboxPublisher: IOutboxPublisher) =>
+        new OutboxRelay(outboxPublisher, relayOptions),
+      inject: [publisher],
+      provide: OutboxRelay,
+    });
+  }
+  return providers;
+}
@@ -0,0 +1,37 @@
+/** Details of a database error, as far as the driver reports them */
+export interface IDatabaseErrorDetails {
+  /** Name of the violated constraint */
+  constraint?: string;
+  /** Name of the table */
+  table?: string;
+  /** Names of the columns involved */
+  columns?: string[];
+}
+
+/** Base class of the exceptions that are thrown instead of driver errors. The original error is kept as driverError */
+export class DatabaseException extends Error {
+  readonly constraint?: string;
+  readonly table?: string;
+  readonly columns: string[];
+
+  constructor(
+    message: string,
+    details: IDatabaseErrorDetails,
+    readonly driverError: any,
+  ) {
+    super(message);
+    this.constraint = details.constraint;
+    this.table = details.table;
+    this.columns = details.columns ?? [];
+  }
+}
+
+/** Describes where the error happened to be used in exception messages */
+export const describeDatabaseError = (details: IDatabaseErrorDetails) =>
+  [
+    details.table && `on ${details.table}`,
+    details.columns?.length && `(${details.columns.join(', ')})`,
+    details.constraint && `constraint ${details.constraint}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
@@ -0,0 +1,16 @@
+import {
+  DatabaseException,
+  IDatabaseErrorDetails,
+  describeDatabaseError,
+} from './database-exception';
+
+/** An exception that is thrown when the database aborts the transaction to resolve a deadlock */
+export class DeadlockDetectedException extends DatabaseException {
+  constructor(details: IDatabaseErrorDetails, driverError: any) {
+    super(
+      `Deadlock detected ${describeDatabaseError(details)}`.trim(),
+      details,
+      driverError,
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { DEFAULT_DATASOURCE_NAME } from '../common/datasource-storage';
+
+/** An exception that is thrown when a repository is requested for an entity that is not part of the connection's entities */
+export class EntityNotRegisteredException extends Error {
+  constructor(entityName: string, connectionName: string) {
+    super(
+      connectionName === DEFAULT_DATASOURCE_NAME
+        ? `Entity ${entityName} is not registered in the default connection`
+        : `Entity ${entityName} is not registered in connection: ${connectionName}`,
+    );
+  }
+}
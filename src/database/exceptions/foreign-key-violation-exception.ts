@@ -0,0 +1,16 @@
+import {
+  DatabaseException,
+  IDatabaseErrorDetails,
+  describeDatabaseError,
+} from './database-exception';
+
+/** An exception that is thrown when a foreign key constraint is violated, e.g. when referencing a missing record or deleting a referenced one */
+export class ForeignKeyViolationException extends DatabaseException {
+  constructor(details: IDatabaseErrorDetails, driverError: any) {
+    super(
+      `Foreign key violation ${describeDatabaseError(details)}`.trim(),
+      details,
+      driverError,
+    );
+  }
+}
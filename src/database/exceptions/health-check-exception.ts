@@ -0,0 +1,10 @@
+import { IHealthIndicatorResult } from '../types/health';
+
+/** An exception that is thrown when a health check fails. It is recognized by @nestjs/terminus like its own HealthCheckError */
+export class HealthCheckException extends Error {
+  readonly isHealthCheckError = true;
+
+  constructor(message: string, readonly causes: IHealthIndicatorResult) {
+    super(message);
+  }
+}
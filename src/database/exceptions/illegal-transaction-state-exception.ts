@@ -0,0 +1,12 @@
+import { Propagation } from '../types/transaction-options';
+
+/** An exception that is thrown when the propagation of a transactional call does not match the active transaction state */
+export class IllegalTransactionStateException extends Error {
+  constructor(propagation: Propagation, connectionName: string) {
+    super(
+      propagation === Propagation.MANDATORY
+        ? `No active transaction found for connection ${connectionName} while propagation is ${propagation}`
+        : `Active transaction found for connection ${connectionName} while propagation is ${propagation}`,
+    );
+  }
+}
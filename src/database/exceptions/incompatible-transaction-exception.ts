@@ -0,0 +1,8 @@
+/** An exception that is thrown when a transactional call cannot join the active transaction due to conflicting options */
+export class IncompatibleTransactionException extends Error {
+  constructor(connectionName: string, reason: string) {
+    super(
+      `Cannot join the active transaction of connection ${connectionName}: ${reason}`,
+    );
+  }
+}
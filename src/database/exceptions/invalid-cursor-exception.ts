@@ -0,0 +1,6 @@
+/** An exception that is thrown when a pagination cursor cannot be decoded */
+export class InvalidCursorException extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+  }
+}
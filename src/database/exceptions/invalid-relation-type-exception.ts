@@ -0,0 +1,8 @@
+/** An exception that is thrown when a relation method is called with a relation of an unsupported type */
+export class InvalidRelationTypeException extends Error {
+  constructor(relation: string, entityName: string, expectedType: string) {
+    super(
+      `Relation ${relation} of ${entityName} is not a ${expectedType} relation`,
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import {
+  DatabaseException,
+  IDatabaseErrorDetails,
+  describeDatabaseError,
+} from './database-exception';
+
+/** An exception that is thrown when null is written into a column that does not allow it */
+export class NotNullViolationException extends DatabaseException {
+  constructor(details: IDatabaseErrorDetails, driverError: any) {
+    super(
+      `Not null violation ${describeDatabaseError(details)}`.trim(),
+      details,
+      driverError,
+    );
+  }
+}
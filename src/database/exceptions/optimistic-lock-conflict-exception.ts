@@ -0,0 +1,14 @@
+/** An exception that is thrown when a record was changed by someone else since the given version was read */
+export class OptimisticLockConflictException extends Error {
+  constructor(
+    public readonly entityName: string,
+    public readonly expectedVersion: number | Date,
+    public readonly actualVersion?: number | Date,
+  ) {
+    super(
+      actualVersion === undefined
+        ? `${entityName} with version ${expectedVersion} no longer exists`
+        : `${entityName} version conflict: expected ${expectedVersion} but found ${actualVersion}`,
+    );
+  }
+}
@@ -0,0 +1,6 @@
+/** An exception that is thrown when a read-only transaction is requested on a driver that does not support it */
+export class ReadOnlyTransactionNotSupportedException extends Error {
+  constructor(driver: string) {
+    super(`Read-only transactions are not supported by ${driver} driver`);
+  }
+}
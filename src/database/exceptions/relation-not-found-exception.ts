@@ -0,0 +1,6 @@
+/** An exception that is thrown when the entity has no relation with the given name */
+export class RelationNotFoundException extends Error {
+  constructor(relation: string, entityName: string) {
+    super(`Relation ${relation} not found in ${entityName}`);
+  }
+}
@@ -0,0 +1,6 @@
+/** An exception that is thrown when a savepoint is requested on a driver that does not support savepoints */
+export class SavepointNotSupportedException extends Error {
+  constructor(driver: string) {
+    super(`Savepoints are not supported by ${driver} driver`);
+  }
+}
@@ -0,0 +1,11 @@
+/** An exception that is thrown when a write would change a record of another tenant than the one of the request context */
+export class TenantScopeViolationException extends Error {
+  constructor(
+    public readonly entityName: string,
+    public readonly tenantId: string | number,
+  ) {
+    super(
+      `${entityName} records of other tenants than ${tenantId} cannot be written`,
+    );
+  }
+}
@@ -0,0 +1,8 @@
+/** An exception that is thrown when an operation that only makes sense in a transaction is run without an active transaction */
+export class TransactionRequiredException extends Error {
+  constructor(operation: string, connectionName: string) {
+    super(
+      `${operation} requires an active transaction on connection ${connectionName}`,
+    );
+  }
+}
@@ -0,0 +1,10 @@
+/** An exception that is thrown when a transaction does not complete within its timeout. The transaction is rolled back */
+export class TransactionTimeoutException extends Error {
+  constructor(connectionName: string, timeout: number, name?: string) {
+    super(
+      `Transaction${
+        name ? ` ${name}` : ''
+      } on connection ${connectionName} timed out after ${timeout}ms`,
+    );
+  }
+}
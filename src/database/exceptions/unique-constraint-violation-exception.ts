@@ -0,0 +1,16 @@
+import {
+  DatabaseException,
+  IDatabaseErrorDetails,
+  describeDatabaseError,
+} from './database-exception';
+
+/** An exception that is thrown when a unique constraint is violated, e.g. when inserting a duplicate key */
+export class UniqueConstraintViolationException extends DatabaseException {
+  constructor(details: IDatabaseErrorDetails, driverError: any) {
+    super(
+      `Unique constraint violation ${describeDatabaseError(details)}`.trim(),
+      details,
+      driverError,
+    );
+  }
+}
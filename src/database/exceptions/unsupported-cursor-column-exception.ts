@@ -0,0 +1,8 @@
+/** An exception that is thrown when cursor pagination is ordered by a column whose values cannot be stored in a cursor */
+export class UnsupportedCursorColumnException extends Error {
+  constructor(entityName: string, propertyPath: string, type: string) {
+    super(
+      `${entityName}.${propertyPath} of type ${type} cannot be used to order cursor pagination`,
+    );
+  }
+}
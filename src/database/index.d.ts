@@ -1,13 +1,62 @@
 export * from './common/async-local-storage';
 export * from './common/constants';
+export * from './common/database-exception-filter';
+export * from './common/datasource-lifecycle';
 export * from './common/datasource-storage';
 export * from './common/decorators';
+export * from './common/driver-errors';
+export * from './common/entity-cache';
+export * from './common/health-indicator';
+export * from './common/in-memory-transaction-tracer';
+export * from './common/parameter-limits';
 export * from './common/pipes';
+export * from './common/replication';
+export * from './common/request-context';
+export * from './common/retry';
+export * from './common/savepoint';
+export * from './common/timeout';
 export * from './common/transaction';
+export * from './common/transaction-events';
+export * from './common/transaction-hooks';
+export * from './common/transaction-interceptor';
+export * from './common/transaction-testing';
 export * from './common/utils';
+export * from './exceptions/database-exception';
+export * from './exceptions/deadlock-detected-exception';
+export * from './exceptions/entity-not-registered-exception';
+export * from './exceptions/foreign-key-violation-exception';
+export * from './exceptions/health-check-exception';
+export * from './exceptions/illegal-transaction-state-exception';
+export * from './exceptions/incompatible-transaction-exception';
+export * from './exceptions/invalid-cursor-exception';
+export * from './exceptions/invalid-relation-type-exception';
+export * from './exceptions/not-null-violation-exception';
+export * from './exceptions/optimistic-lock-conflict-exception';
+export * from './exceptions/read-only-transaction-not-supported-exception';
+export * from './exceptions/relation-not-found-exception';
+export * from './exceptions/savepoint-not-supported-exception';
+export * from './exceptions/tenant-scope-violation-exception';
+export * from './exceptions/transaction-required-exception';
+export * from './exceptions/transaction-timeout-exception';
+export * from './exceptions/unique-constraint-violation-exception';
 export * from './exceptions/unknown-connection-exception';
+export * from './exceptions/unsupported-cursor-column-exception';
+export * from './outbox/in-memory-outbox-publisher';
+export * from './outbox/outbox-relay';
+export * from './outbox/outbox.entity';
+export * from './outbox/outbox.service';
 export * from './types/async-local-store';
+export * from './types/batch-options';
 export * from './types/connection-options';
+export * from './types/entity-pipe-options';
+export * from './types/find-options';
+export * from './types/health';
+export * from './types/outbox';
 export * from './types/pagination';
+export * from './types/request-context';
+export * from './types/transaction-events';
+export * from './types/transaction-hooks';
+export * from './types/transaction-interceptor-options';
+export * from './types/transaction-options';
 export * from './transactional.repository';
 export * from './typeorm-transaction.module';
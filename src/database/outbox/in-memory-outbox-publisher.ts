@@ -0,0 +1,15 @@
+import { IOutboxMessage, IOutboxPublisher } from '../types/outbox';
+
+/** Keeps published messages in memory. Useful in tests */
+export class InMemoryOutboxPublisher implements IOutboxPublisher {
+  readonly messages: IOutboxMessage[] = [];
+
+  async publish(message: IOutboxMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  /** Removes all published messages */
+  clear() {
+    this.messages.length = 0;
+  }
+}
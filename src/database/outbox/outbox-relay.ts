@@ -0,0 +1,164 @@
+import {
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { In, LessThanOrEqual } from 'typeorm';
+import { TransactionalRepository } from '../transactional.repository';
+import { DEFAULT_DATASOURCE_NAME } from '../common/datasource-storage';
+import { transaction } from '../common/transaction';
+import { Propagation } from '../types/transaction-options';
+import {
+  IOutboxPublisher,
+  IOutboxRelayOptions,
+  OutboxStatus,
+} from '../types/outbox';
+import { OutboxEntity } from './outbox.entity';
+
+/** Drivers supporting SELECT ... FOR UPDATE SKIP LOCKED */
+const skipLockedDrivers = [
+  'postgres',
+  'aurora-postgres',
+  'cockroachdb',
+  'mysql',
+  'mariadb',
+  'aurora-mysql',
+  'oracle',
+];
+
+/** Claims pending outbox messages, hands them to the publisher and marks them as sent or schedules them for retry */
+export class OutboxRelay
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(OutboxRelay.name);
+  private timer: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    private publisher: IOutboxPublisher,
+    private options: IOutboxRelayOptions = {},
+  ) {}
+
+  onApplicationBootstrap() {
+    if (this.options.pollInterval) {
+      this.start();
+    }
+  }
+
+  onApplicationShutdown() {
+    this.stop();
+  }
+
+  /** Starts polling the outbox */
+  start() {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    const poll = async () => {
+      try {
+        await this.processBatch();
+      } catch (error) {
+        this.logger.error(
+          `Failed to process outbox: ${error?.message ?? error}`,
+          error?.stack,
+        );
+      } finally {
+        if (this.polling) {
+          this.timer = setTimeout(poll, this.options.pollInterval ?? 1000);
+        }
+      }
+    };
+    this.timer = setTimeout(poll, 0);
+  }
+
+  /** Stops polling the outbox */
+  stop() {
+    this.polling = false;
+    clearTimeout(this.timer);
+  }
+
+  /** Publishes a batch of pending messages and returns the number of messages processed */
+  async processBatch(): Promise<number> {
+    const messages = await this.claim();
+    const { maxAttempts = 5, retryDelay = 1000 } = this.options;
+
+    for (const message of messages) {
+      const repository = this.getRepository();
+      try {
+        await this.publisher.publish({
+          id: message.id,
+          type: message.type,
+          payload: message.payload,
+          attempts: message.attempts,
+          createdAt: message.createdAt,
+        });
+        await repository.update(message.id, {
+          status: OutboxStatus.SENT,
+          sentAt: new Date(),
+          lastError: null,
+        });
+      } catch (error) {
+        const failed = message.attempts >= maxAttempts;
+        await repository.update(message.id, {
+          status: failed ? OutboxStatus.FAILED : OutboxStatus.PENDING,
+          availableAt: new Date(
+            Date.now() + retryDelay * 2 ** (message.attempts - 1),
+          ),
+          lastError: String(error?.stack ?? error),
+        });
+      }
+    }
+    return messages.length;
+  }
+
+  /** Selects due messages and hides them from other relays for the lease time, incrementing their attempts */
+  private async claim() {
+    const {
+      connection = DEFAULT_DATASOURCE_NAME,
+      batchSize = 100,
+      leaseTime = 60000,
+    } = this.options;
+
+    return await transaction(
+      async () => {
+        const repository = this.getRepository();
+        const driver = repository.manager.connection.options.type;
+        const now = new Date();
+        const messages = await repository.find({
+          where: {
+            status: OutboxStatus.PENDING,
+            availableAt: LessThanOrEqual(now),
+          },
+          order: { id: 'ASC' },
+          take: batchSize,
+          lock: skipLockedDrivers.includes(driver)
+            ? { mode: 'pessimistic_write', onLocked: 'skip_locked' }
+            : undefined,
+        });
+        if (!messages.length) {
+          return messages;
+        }
+
+        await repository.update(
+          { id: In(messages.map((message) => message.id)) },
+          { availableAt: new Date(now.getTime() + leaseTime) },
+        );
+        await repository.increment(
+          { id: In(messages.map((message) => message.id)) },
+          'attempts',
+          1,
+        );
+        messages.forEach((message) => message.attempts++);
+        return messages;
+      },
+      { connection, propagation: Propagation.REQUIRES_NEW },
+    );
+  }
+
+  private getRepository() {
+    return TransactionalRepository.getEntityManager(
+      this.options.connection,
+    ).getRepository(OutboxEntity);
+  }
+}
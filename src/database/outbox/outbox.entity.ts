@@ -0,0 +1,40 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { OutboxStatus } from '../types/outbox';
+
+/** Stores the events to publish once the transaction writing them is committed. Must be registered in forRoot() entities */
+@Entity('outbox')
+@Index(['status', 'availableAt'])
+export class OutboxEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  type: string;
+
+  @Column({ type: 'simple-json', nullable: true })
+  payload: any;
+
+  @Column({ type: 'varchar', length: 16, default: OutboxStatus.PENDING })
+  status: OutboxStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column()
+  availableAt: Date;
+
+  @Column({ nullable: true })
+  sentAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,27 @@
+import { TransactionalRepository } from '../transactional.repository';
+import { DEFAULT_DATASOURCE_NAME } from '../common/datasource-storage';
+import { IOutboxEvent } from '../types/outbox';
+import { OutboxEntity } from './outbox.entity';
+
+/** Writes events to the outbox through the active transactional entity manager, so they are only stored if the transaction is committed */
+export class OutboxService {
+  constructor(private connection: string = DEFAULT_DATASOURCE_NAME) {}
+
+  /** Adds the event(s) to the outbox */
+  async enqueue(event: IOutboxEvent | IOutboxEvent[]): Promise<void> {
+    const events = event instanceof Array ? event : [event];
+    if (!events.length) {
+      return;
+    }
+    const now = new Date();
+    await TransactionalRepository.getEntityManager(this.connection)
+      .getRepository(OutboxEntity)
+      .insert(
+        events.map((e) => ({
+          type: e.type,
+          payload: e.payload ?? null,
+          availableAt: e.availableAt ?? now,
+        })),
+      );
+  }
+}
@@ -1,25 +1,115 @@
 import {
+  Brackets,
   DataSource,
   DeepPartial,
   EntityManager,
   EntitySchema,
   FindManyOptions,
-  FindOneOptions,
   FindOptionsWhere,
   ObjectId,
   ObjectLiteral,
+  In,
   QueryRunner,
   Repository,
   SaveOptions,
 } from 'typeorm';
-import { IPagination } from './types/pagination';
+import { MissingDeleteDateColumnError } from 'typeorm/error/MissingDeleteDateColumnError';
+import { EntityPropertyNotFoundError } from 'typeorm/error/EntityPropertyNotFoundError';
+import { OptimisticLockCanNotBeUsedError } from 'typeorm/error/OptimisticLockCanNotBeUsedError';
+import { OrmUtils } from 'typeorm/util/OrmUtils';
+import { EntityMetadata } from 'typeorm/metadata/EntityMetadata';
+import { RelationMetadata } from 'typeorm/metadata/RelationMetadata';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { AbstractSqliteDriver } from 'typeorm/driver/sqlite-abstract/AbstractSqliteDriver';
+import { RawSqlResultsToEntityTransformer } from 'typeorm/query-builder/transformer/RawSqlResultsToEntityTransformer';
+import {
+  ICursorPagination,
+  ICursorPaginationOptions,
+  IPagination,
+  IPaginationOptions,
+} from './types/pagination';
+import { InvalidCursorException } from './exceptions/invalid-cursor-exception';
+import { EntityCache } from './common/entity-cache';
+import {
+  IAggregateOptions,
+  IFindManyOptions,
+  IFindOneOptions,
+  ILockOptions,
+} from './types/find-options';
+import { TransactionRequiredException } from './exceptions/transaction-required-exception';
+import { OptimisticLockConflictException } from './exceptions/optimistic-lock-conflict-exception';
 import {
   DEFAULT_DATASOURCE_NAME,
   DataSourceStorage,
 } from './common/datasource-storage';
-import { asyncLocalStorage as als } from './common/async-local-storage';
+import { getActiveEntityManager } from './common/async-local-storage';
+import { isMasterRequired, isReplicated } from './common/replication';
+import {
+  RequestContext,
+  getRepositoryPolicies,
+} from './common/request-context';
+import { IRepositoryPolicies } from './types/request-context';
+import { getMaxRecordsPerQuery } from './common/parameter-limits';
+import { transaction } from './common/transaction';
+import { IBulkWriteOptions, IChunkOptions } from './types/batch-options';
+import { Propagation, TransactionOptions } from './types/transaction-options';
 import { PickKeysByType } from 'typeorm/common/PickKeysByType';
 import { UpsertOptions } from 'typeorm/repository/UpsertOptions';
+import { translateDriverError } from './common/driver-errors';
+import { RelationNotFoundException } from './exceptions/relation-not-found-exception';
+import { TenantScopeViolationException } from './exceptions/tenant-scope-violation-exception';
+import { InvalidRelationTypeException } from './exceptions/invalid-relation-type-exception';
+import { UnsupportedCursorColumnException } from './exceptions/unsupported-cursor-column-exception';
+
+/** Encodes the values of the ordered columns of a record into an opaque cursor */
+function encodeCursor(values: any[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/** Column types whose values are hydrated as Date objects, so they are restored from the ISO strings stored in a cursor */
+const cursorDateTimeTypes = [
+  'datetime',
+  'datetime2',
+  'datetimeoffset',
+  'smalldatetime',
+  'timestamp',
+  'timestamptz',
+  'timestamp without time zone',
+  'timestamp with time zone',
+  'timestamp with local time zone',
+];
+
+/** Column types whose values cannot be stored in a cursor or compared in keyset conditions */
+const unsupportedCursorTypes = [
+  'json',
+  'jsonb',
+  'simple-json',
+  'simple-array',
+  'blob',
+  'tinyblob',
+  'mediumblob',
+  'longblob',
+  'bytea',
+  'binary',
+  'varbinary',
+  'image',
+  'raw',
+  'long raw',
+];
+
+/** Decodes the values of the ordered columns from a cursor */
+function decodeCursor(cursor: string, length: number): any[] {
+  let values: any;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new InvalidCursorException(cursor);
+  }
+  if (!Array.isArray(values) || values.length !== length) {
+    throw new InvalidCursorException(cursor);
+  }
+  return values;
+}
 
 type IdType =
   | number
@@ -31,11 +121,14 @@ type IdType =
   | ObjectId[]
   | Date[];
 
+/** Ids of entities used in relation methods. Composite keys are given as objects mapping the primary columns to their values */
+type RelationIdType = IdType | ObjectLiteral | ObjectLiteral[];
+
 export class TransactionalRepository<T extends ObjectLiteral> {
   constructor(
-    private dataSource: DataSource,
-    private EntityClass: Function | EntitySchema<any>,
-    private connection: string = DEFAULT_DATASOURCE_NAME,
+    protected dataSource: DataSource,
+    protected EntityClass: Function | EntitySchema<any>,
+    protected connection: string = DEFAULT_DATASOURCE_NAME,
   ) {}
 
   /** Execute a raw query */
@@ -47,22 +140,18 @@ export class TransactionalRepository<T extends ObjectLiteral> {
     /** Name of the connection */
     connection?: string;
   }) {
-    let manager: EntityManager;
-    const connection = options.connection ?? DEFAULT_DATASOURCE_NAME;
-    if (als.getStore() && als.getStore()[connection]) {
-      manager = als.getStore()[connection];
-    } else {
-      manager = DataSourceStorage.getDataSource(connection).manager;
-    }
+    const manager = TransactionalRepository.getEntityManager(
+      options.connection,
+    );
     return await manager.query<Raw>(options.query, options.parameters);
   }
 
   /** Retrieve the transactional entity manager optionally specifying a connection name. If no connection name is specified, the default connection's entity manager is returned */
-  static getEntityManager(connection: string = DEFAULT_DATASOURCE_NAME) {
-    let manager: EntityManager;
-    if (als.getStore() && als.getStore()[connection]) {
-      manager = als.getStore()[connection];
-    } else {
+  static getEntityManager(
+    connection: string = DEFAULT_DATASOURCE_NAME,
+  ): EntityManager {
+    let manager: EntityManager = getActiveEntityManager(connection);
+    if (!manager) {
       manager = DataSourceStorage.getDataSource(connection).manager;
     }
     return manager;
@@ -70,26 +159,278 @@ export class TransactionalRepository<T extends ObjectLiteral> {
 
   /** Get native typeorm repository */
   getTypeOrmRepository(): Repository<T> {
-    let manager: EntityManager;
-    if (als.getStore() && als.getStore()[this.connection]) {
-      manager = als.getStore()[this.connection];
-    } else {
+    let manager: EntityManager = getActiveEntityManager(this.connection);
+    if (!manager) {
       manager = this.dataSource.manager;
     }
     return manager.getRepository(this.EntityClass);
   }
 
+  /** Ensure that a transaction is active for the connection of the repository */
+  protected assertTransactionActive(operation: string) {
+    if (
+      !getActiveEntityManager(this.connection)?.queryRunner?.isTransactionActive
+    ) {
+      throw new TransactionRequiredException(operation, this.connection);
+    }
+  }
+
+  /** Get the name of the entity */
+  protected getEntityName(): string {
+    return this.getTypeOrmRepository().metadata.name;
+  }
+
+  /** Remove the cached records of the entity after a write */
+  protected clearEntityCache() {
+    EntityCache.clear(this.connection, this.getEntityName());
+  }
+
+  /** Run a write, translating constraint violations and deadlocks reported by the driver into typed exceptions */
+  protected async runWrite<R>(write: () => Promise<R>): Promise<R> {
+    try {
+      return await write();
+    } catch (error) {
+      throw translateDriverError(error, this.dataSource.options.type);
+    }
+  }
+
+  /** Get the columns to fill in and filter by. Override to set policies for a single repository */
+  protected getPolicies(): IRepositoryPolicies {
+    return getRepositoryPolicies();
+  }
+
+  /** Get the tenant column and the tenant of the request context if queries of the entity should be limited to it */
+  protected getTenantScope() {
+    const { tenantColumn } = this.getPolicies();
+    const tenantId = RequestContext.get()?.tenantId;
+    if (
+      !tenantColumn ||
+      tenantId === undefined ||
+      tenantId === null ||
+      RequestContext.isTenantScopeSkipped()
+    ) {
+      return undefined;
+    }
+    const column =
+      this.getTypeOrmRepository().metadata.findColumnWithPropertyPath(
+        tenantColumn,
+      );
+    return column ? { column, tenantId } : undefined;
+  }
+
+  /** Add the tenant condition to the criteria of an update or delete */
+  protected scopeCriteria(
+    criteria: IdType | FindOptionsWhere<T>,
+  ): IdType | FindOptionsWhere<T> {
+    const scope = this.getTenantScope();
+    if (!scope) {
+      return criteria;
+    }
+
+    let where: FindOptionsWhere<T>;
+    if (
+      typeof criteria === 'object' &&
+      !Array.isArray(criteria) &&
+      !(criteria instanceof Date)
+    ) {
+      where = { ...(criteria as FindOptionsWhere<T>) };
+    } else {
+      const [primaryColumn] =
+        this.getTypeOrmRepository().metadata.primaryColumns;
+      where = {};
+      primaryColumn.setEntityValue(
+        where,
+        Array.isArray(criteria) ? In(criteria as any[]) : criteria,
+      );
+    }
+    scope.column.setEntityValue(where, scope.tenantId);
+    return where;
+  }
+
+  /** Find the stored records matching the given entities on the key columns, in any tenant. Entities without key values are not looked up */
+  protected async findStoredRecords(
+    entities: DeepPartial<T>[],
+    keyColumns: ColumnMetadata[],
+  ): Promise<(T | undefined)[]> {
+    const hasKey = (entity: DeepPartial<T>) =>
+      keyColumns.length > 0 &&
+      keyColumns.every((column) => column.getEntityValue(entity) != null);
+    const where = entities.filter(hasKey).map((entity) => {
+      const keys = {};
+      for (const column of keyColumns) {
+        column.setEntityValue(keys, column.getEntityValue(entity));
+      }
+      return keys as FindOptionsWhere<T>;
+    });
+    if (!where.length) {
+      return entities.map(() => undefined);
+    }
+    // Reads the master, since the records may have been written in the same request
+    const stored = await this.runReadQuery(true, (queryRunner) =>
+      this.getTypeOrmRepository()
+        .createQueryBuilder(undefined, queryRunner)
+        .setFindOptions({ where, withDeleted: true })
+        .getMany(),
+    );
+    return entities.map((entity) =>
+      hasKey(entity)
+        ? stored.find((record) =>
+            keyColumns.every(
+              (column) =>
+                String(column.getEntityValue(record)) ===
+                String(column.getEntityValue(entity)),
+            ),
+          )
+        : undefined,
+    );
+  }
+
+  /** Whether the record is assigned to another tenant than the one of the request context */
+  protected isOtherTenant(record: DeepPartial<T>) {
+    const scope = this.getTenantScope();
+    const tenantId = scope?.column.getEntityValue(record);
+    return tenantId != null && String(tenantId) !== String(scope.tenantId);
+  }
+
+  /** Throw TenantScopeViolationException if the entities whose relations are read or changed belong to another tenant */
+  protected async assertRelationOwnerScope(entityId: RelationIdType) {
+    const metadata = this.getTypeOrmRepository().metadata;
+    const ids = entityId instanceof Array ? entityId : [entityId];
+    await this.assertTenantScope(
+      ids.map((id) => metadata.ensureEntityIdMap(id) as DeepPartial<T>),
+    );
+  }
+
+  /** Throw TenantScopeViolationException if any of the entities is stored in, or assigned to, another tenant than the one of the request context */
+  protected async assertTenantScope(
+    entities: DeepPartial<T>[],
+    keyColumns = this.getTypeOrmRepository().metadata.primaryColumns,
+  ): Promise<(T | undefined)[]> {
+    const scope = this.getTenantScope();
+    if (!scope) {
+      return entities.map(() => undefined);
+    }
+    const stored = await this.findStoredRecords(entities, keyColumns);
+    entities.forEach((entity, i) => {
+      if (
+        this.isOtherTenant(entity) ||
+        (stored[i] && this.isOtherTenant(stored[i]))
+      ) {
+        throw new TenantScopeViolationException(
+          this.getEntityName(),
+          scope.tenantId,
+        );
+      }
+    });
+    return stored;
+  }
+
+  /**
+   * Stamp the tenant and audit columns of records about to be written with the values of the request context.
+   * Unless inserting, records are looked up by the key columns, the primary columns by default, or the conflict columns of an upsert.
+   * TenantScopeViolationException is thrown for records of other tenants, and the tenant is only stamped into new records
+   */
+  protected async stampEntities(
+    entities: DeepPartial<T>[],
+    inserting: boolean,
+    keyColumns?: ColumnMetadata[],
+  ) {
+    const { createdByColumn, updatedByColumn } = this.getPolicies();
+    const metadata = this.getTypeOrmRepository().metadata;
+    const userId = RequestContext.get()?.userId;
+    const scope = this.getTenantScope();
+    const createdBy =
+      createdByColumn && metadata.findColumnWithPropertyPath(createdByColumn);
+    const updatedBy =
+      updatedByColumn && metadata.findColumnWithPropertyPath(updatedByColumn);
+    const stored = inserting
+      ? entities.map(() => undefined)
+      : await this.assertTenantScope(entities, keyColumns);
+
+    entities.forEach((entity, i) => {
+      // Upserts write the same columns for all records of a batch, so existing records, which belong to the tenant, are stamped as well
+      if (scope && (!stored[i] || keyColumns)) {
+        scope.column.setEntityValue(entity, scope.tenantId);
+      }
+      if (userId === undefined || userId === null) {
+        return;
+      }
+      const isNew = inserting || !metadata.hasAllPrimaryKeys(entity);
+      if (createdBy && isNew && createdBy.getEntityValue(entity) == null) {
+        createdBy.setEntityValue(entity, userId);
+      }
+      if (updatedBy) {
+        updatedBy.setEntityValue(entity, userId);
+      }
+    });
+  }
+
+  /** Run a read query. Without an active transaction, it runs on a read replica, or on the master if required, when replication is configured */
+  protected async runReadQuery<R>(
+    useMaster: boolean | undefined,
+    query: (queryRunner?: QueryRunner) => Promise<R>,
+  ): Promise<R> {
+    if (
+      getActiveEntityManager(this.connection) ||
+      !isReplicated(this.dataSource)
+    ) {
+      return await query();
+    }
+    const queryRunner = this.dataSource.createQueryRunner(
+      useMaster || isMasterRequired() ? 'master' : 'slave',
+    );
+    try {
+      return await query(queryRunner);
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /** Create a query builder applying find options, restricting it to soft deleted records if onlyDeleted is set */
+  protected createFindQueryBuilder(
+    options?: IFindManyOptions<T>,
+    queryRunner?: QueryRunner,
+  ) {
+    const { onlyDeleted, ...findOptions } = options ?? {};
+    const queryBuilder = this.getTypeOrmRepository()
+      .createQueryBuilder(undefined, queryRunner)
+      .setFindOptions(
+        onlyDeleted ? { ...findOptions, withDeleted: true } : findOptions,
+      );
+    const scope = this.getTenantScope();
+    if (scope) {
+      queryBuilder.andWhere(
+        `${queryBuilder.alias}.${scope.column.propertyPath} = :tenantScopeId`,
+        { tenantScopeId: scope.tenantId },
+      );
+    }
+    if (onlyDeleted) {
+      const { metadata } = queryBuilder.expressionMap.mainAlias;
+      if (!metadata.deleteDateColumn) {
+        throw new MissingDeleteDateColumnError(metadata);
+      }
+      queryBuilder.andWhere(
+        `${queryBuilder.alias}.${metadata.deleteDateColumn.propertyPath} IS NOT NULL`,
+      );
+    }
+    return queryBuilder;
+  }
+
   /** Create query builder */
   createQueryBuilder(alias?: string, queryRunner?: QueryRunner) {
     return this.getTypeOrmRepository().createQueryBuilder(alias, queryRunner);
   }
 
   /** Return multiple records */
-  async find(options?: FindManyOptions<T>) {
-    return await this.getTypeOrmRepository()
-      .createQueryBuilder()
-      .setFindOptions(options ?? {})
-      .getMany();
+  async find(options?: IFindManyOptions<T>) {
+    return await this.runReadQuery(options?.useMaster, (queryRunner) =>
+      this.createFindQueryBuilder(options, queryRunner).getMany(),
+    );
+  }
+
+  /** Return soft deleted records only */
+  async findDeleted(options?: FindManyOptions<T>) {
+    return await this.find({ ...options, onlyDeleted: true });
   }
 
   /** Return multiple records */
@@ -103,46 +444,328 @@ export class TransactionalRepository<T extends ObjectLiteral> {
   async findWithPagination(
     limit: number,
     page: number,
-    options?: FindManyOptions<T>,
+    options?: IPaginationOptions<T>,
   ): Promise<IPagination<T>> {
-    const data = await this.getTypeOrmRepository()
-      .createQueryBuilder()
-      .setFindOptions(options ?? {})
-      .skip((page - 1) * limit)
-      .take(limit)
-      .getMany();
-
-    const count = await this.getTypeOrmRepository()
-      .createQueryBuilder()
-      .setFindOptions(options ?? {})
-      .getCount();
+    const { skipCount, ...findOptions } = options ?? {};
+    return await this.runReadQuery(
+      findOptions.useMaster,
+      async (queryRunner) => {
+        const data = await this.createFindQueryBuilder(findOptions, queryRunner)
+          .skip((page - 1) * limit)
+          .take(skipCount ? limit + 1 : limit)
+          .getMany();
+
+        if (skipCount) {
+          return {
+            currentPage: page,
+            limit,
+            hasMore: data.length > limit,
+            data: data.slice(0, limit),
+          };
+        }
+
+        const count = await this.createFindQueryBuilder(
+          findOptions,
+          queryRunner,
+        ).getCount();
+
+        return {
+          count,
+          pageCount: Math.ceil(count / limit),
+          currentPage: page,
+          limit,
+          hasMore: page * limit < count,
+          data,
+        };
+      },
+    );
+  }
+
+  /** Return multiple records with cursor (keyset) pagination. Columns in orderBy should not be nullable */
+  async findWithCursor(
+    options: ICursorPaginationOptions<T>,
+  ): Promise<ICursorPagination<T>> {
+    const { orderBy, after, before, limit, ...findOptions } = options;
+    const repository = this.getTypeOrmRepository();
+    const metadata = repository.metadata;
+
+    const orderColumns = Object.entries(orderBy ?? {}).map(
+      ([propertyPath, direction]) => {
+        const column = metadata.findColumnWithPropertyPath(propertyPath);
+        if (!column) {
+          throw new EntityPropertyNotFoundError(propertyPath, metadata);
+        }
+        return { column, direction: direction as 'ASC' | 'DESC' };
+      },
+    );
+    const tiebreakerDirection = orderColumns.length
+      ? orderColumns[orderColumns.length - 1].direction
+      : 'ASC';
+    for (const column of metadata.primaryColumns) {
+      if (!orderColumns.some((orderColumn) => orderColumn.column === column)) {
+        orderColumns.push({ column, direction: tiebreakerDirection });
+      }
+    }
+    const { driver } = this.dataSource;
+    for (const { column } of orderColumns) {
+      // Simple types are normalized to the text types they are stored in, so the declared type is checked first
+      const type =
+        typeof column.type === 'string' &&
+        unsupportedCursorTypes.includes(column.type)
+          ? column.type
+          : driver.normalizeType(column);
+      if (column.isArray || unsupportedCursorTypes.includes(type)) {
+        throw new UnsupportedCursorColumnException(
+          metadata.name,
+          column.propertyPath,
+          type,
+        );
+      }
+    }
+
+    // Pages before a cursor are queried in reverse order and reversed back afterwards
+    const backward = !after && !!before;
+    const cursor = after ?? before;
+    const queryBuilder = this.createFindQueryBuilder(findOptions);
+    const alias = queryBuilder.alias;
+
+    orderColumns.forEach(({ column, direction }) => {
+      const reversed = direction === 'ASC' ? 'DESC' : 'ASC';
+      queryBuilder.addOrderBy(
+        `${alias}.${column.propertyPath}`,
+        backward ? reversed : direction,
+      );
+    });
+
+    if (cursor) {
+      // Cursor values went through JSON, so dates are restored and all values are converted like written values
+      const dateColumns = orderColumns.map(
+        ({ column }) =>
+          !column.transformer &&
+          cursorDateTimeTypes.includes(driver.normalizeType(column)),
+      );
+      const values = decodeCursor(cursor, orderColumns.length).map((value, i) =>
+        driver.preparePersistentValue(
+          value !== null && dateColumns[i] ? new Date(value) : value,
+          orderColumns[i].column,
+        ),
+      );
+      // Sqlite stores dates as text, with or without milliseconds depending on who wrote them, so both sides are compared in one format
+      const compared = (expression: string, i: number) =>
+        dateColumns[i] && driver instanceof AbstractSqliteDriver
+          ? `strftime('%Y-%m-%d %H:%M:%f', ${expression})`
+          : expression;
+      queryBuilder.andWhere(
+        new Brackets((qb) => {
+          orderColumns.forEach((_, i) => {
+            qb.orWhere(
+              new Brackets((keyset) => {
+                for (let j = 0; j <= i; j++) {
+                  const path = `${alias}.${orderColumns[j].column.propertyPath}`;
+                  const ascending =
+                    (orderColumns[j].direction === 'ASC') !== backward;
+                  const operator = j < i ? '=' : ascending ? '>' : '<';
+                  keyset.andWhere(
+                    `${compared(path, j)} ${operator} ${compared(
+                      `:cursor_${j}`,
+                      j,
+                    )}`,
+                    {
+                      [`cursor_${j}`]: values[j],
+                    },
+                  );
+                }
+              }),
+            );
+          });
+        }),
+      );
+    }
 
+    const records = await this.runReadQuery(
+      findOptions.useMaster,
+      (queryRunner) => {
+        if (queryRunner) {
+          queryBuilder.setQueryRunner(queryRunner);
+        }
+        return queryBuilder.take(limit + 1).getMany();
+      },
+    );
+    const hasMore = records.length > limit;
+    const data = records.slice(0, limit);
+    if (backward) {
+      data.reverse();
+    }
+
+    const encode = (entity: T) =>
+      encodeCursor(
+        orderColumns.map(({ column }) => column.getEntityValue(entity)),
+      );
+    const first = data[0];
+    const last = data[data.length - 1];
     return {
-      count,
-      pageCount: Math.ceil(count / limit),
-      currentPage: page,
-      limit,
       data,
+      nextCursor: last && (backward || hasMore) ? encode(last) : null,
+      prevCursor:
+        first && (backward ? hasMore : !!after) ? encode(first) : null,
+      hasMore,
     };
   }
 
   /** Find one record */
-  async findOne(options: FindOneOptions<T>) {
-    return await this.getTypeOrmRepository()
-      .createQueryBuilder()
-      .setFindOptions(options)
-      .getOne();
+  async findOne(options: IFindOneOptions<T>) {
+    return await this.runReadQuery(options.useMaster, (queryRunner) =>
+      this.createFindQueryBuilder(options, queryRunner).getOne(),
+    );
   }
 
-  /** Find one record */
+  /** Find records and lock them until the active transaction is completed. Throws if there is no active transaction */
+  async findForUpdate(options?: IFindManyOptions<T> & ILockOptions) {
+    const { lockMode, onLocked, ...findOptions } = options ?? {};
+    this.assertTransactionActive('findForUpdate');
+    return await this.find({
+      ...findOptions,
+      lock: { mode: lockMode ?? 'pessimistic_write', onLocked },
+    });
+  }
+
+  /** Find one record and lock it until the active transaction is completed. Throws if there is no active transaction */
+  async findOneForUpdate(options: IFindOneOptions<T> & ILockOptions) {
+    const { lockMode, onLocked, ...findOptions } = options;
+    this.assertTransactionActive('findOneForUpdate');
+    return await this.findOne({
+      ...findOptions,
+      lock: { mode: lockMode ?? 'pessimistic_write', onLocked },
+    });
+  }
+
+  /** Find one record. Records cached by entity pipes are returned without querying the database */
   async findOneBy(where: FindOptionsWhere<T> | FindOptionsWhere<T>[]) {
+    // Transactions read the database, since the cached record may have been changed since it was cached
+    const key =
+      Array.isArray(where) || getActiveEntityManager(this.connection)
+        ? undefined
+        : EntityCache.getKey(this.connection, this.getEntityName(), where);
+    const cached = key && EntityCache.get(key);
+    const scope = cached && this.getTenantScope();
+    if (
+      cached &&
+      (!scope || scope.column.getEntityValue(cached) === scope.tenantId)
+    ) {
+      // The cache is shared by all requests, so callers get their own copy
+      return this.create(cached as DeepPartial<T>);
+    }
     return await this.findOne({
       where,
     });
   }
 
+  /**
+   * Stream records one by one using the query stream of the driver, so that they are not all loaded into memory.
+   * Records should not be joined with to-many relations, since each row is turned into a separate entity
+   */
+  async *stream(options?: IFindManyOptions<T>): AsyncGenerator<T> {
+    const queryBuilder = this.createFindQueryBuilder(options);
+    const activeQueryRunner = getActiveEntityManager(
+      this.connection,
+    )?.queryRunner;
+    // The query runner is released here, since the driver only releases it once the stream ends, not when iteration is stopped early
+    const ownQueryRunner = activeQueryRunner
+      ? undefined
+      : this.dataSource.createQueryRunner(
+          isReplicated(this.dataSource) &&
+            !options?.useMaster &&
+            !isMasterRequired()
+            ? 'slave'
+            : 'master',
+        );
+    const queryRunner = activeQueryRunner ?? ownQueryRunner;
+    queryBuilder.setQueryRunner(queryRunner);
+
+    try {
+      const rows = await queryBuilder.stream();
+      const { expressionMap } = queryBuilder;
+      const transformer = new RawSqlResultsToEntityTransformer(
+        expressionMap,
+        this.dataSource.driver,
+        [],
+        [],
+        queryRunner,
+      );
+      for await (const row of rows) {
+        const entities = transformer.transform([row], expressionMap.mainAlias);
+        if (
+          expressionMap.callListeners &&
+          expressionMap.mainAlias.hasMetadata
+        ) {
+          await queryRunner.broadcaster.broadcast(
+            'Load',
+            expressionMap.mainAlias.metadata,
+            entities,
+          );
+        }
+        for (const entity of entities) {
+          yield entity;
+        }
+      }
+    } finally {
+      await ownQueryRunner?.release();
+    }
+  }
+
+  /**
+   * Process records in chunks using keyset iteration over the primary key, or the columns in orderBy followed by the primary key.
+   * Returns the number of processed records
+   */
+  async findInChunks(
+    options: IChunkOptions<T>,
+    chunkSize: number,
+    handler: (chunk: T[], index: number) => Promise<void> | void,
+  ): Promise<number> {
+    const { transactional, ...findOptions } = options ?? {};
+    const transactionOptions: TransactionOptions = {
+      connection: this.connection,
+      propagation: Propagation.REQUIRES_NEW,
+      ...(typeof transactional === 'object' ? transactional : {}),
+    };
+
+    let after: string | undefined;
+    let processed = 0;
+    for (let index = 0; ; index++) {
+      const processChunk = async () => {
+        const page = await this.findWithCursor({
+          ...findOptions,
+          after,
+          limit: chunkSize,
+        });
+        if (page.data.length) {
+          await handler(page.data, index);
+        }
+        return page;
+      };
+      const page = transactional
+        ? await transaction(processChunk, transactionOptions)
+        : await processChunk();
+
+      processed += page.data.length;
+      if (!page.hasMore) {
+        return processed;
+      }
+      after = page.nextCursor;
+    }
+  }
+
   /** Preload an entity using typeorm preload method */
   async preload(entity: DeepPartial<T>): Promise<T> {
+    if (this.getTenantScope()) {
+      const [stored] = await this.findStoredRecords(
+        [entity],
+        this.getTypeOrmRepository().metadata.primaryColumns,
+      );
+      if (stored && this.isOtherTenant(stored)) {
+        return undefined;
+      }
+    }
     return await this.getTypeOrmRepository().preload(entity);
   }
 
@@ -152,13 +775,10 @@ export class TransactionalRepository<T extends ObjectLiteral> {
   async insert(
     entity: DeepPartial<T> | Array<DeepPartial<T>>,
   ): Promise<T | T[]> {
-    if (entity instanceof Array) {
-      await this.getTypeOrmRepository().insert(entity);
-      return entity as T[];
-    } else {
-      await this.getTypeOrmRepository().insert(entity);
-      return entity as T;
-    }
+    this.clearEntityCache();
+    await this.stampEntities(entity instanceof Array ? entity : [entity], true);
+    await this.runWrite(() => this.getTypeOrmRepository().insert(entity));
+    return entity as T | T[];
   }
 
   /** Creates entity/entities without saving them in DB */
@@ -184,16 +804,118 @@ export class TransactionalRepository<T extends ObjectLiteral> {
     } else {
       saveOptions.transaction = false;
     }
+    this.clearEntityCache();
+    await this.stampEntities(
+      entity instanceof Array ? entity : [entity],
+      false,
+    );
     if (entity instanceof Array) {
-      return await this.getTypeOrmRepository().save(entity, saveOptions);
+      return await this.runWrite(() =>
+        this.getTypeOrmRepository().save(entity, saveOptions),
+      );
     } else {
-      return await this.getTypeOrmRepository().save(entity, saveOptions);
+      return await this.runWrite(() =>
+        this.getTypeOrmRepository().save(entity, saveOptions),
+      );
     }
   }
 
+  /**
+   * Updates the entity only if its version column still has the given value, incrementing the version.
+   * Throws OptimisticLockConflictException if the record was changed or removed in the meantime.
+   * Entities without a primary key or version value are saved as usual
+   */
+  async saveWithVersion(entity: DeepPartial<T>): Promise<T> {
+    const metadata = this.getTypeOrmRepository().metadata;
+    if (!metadata.versionColumn) {
+      throw new OptimisticLockCanNotBeUsedError();
+    }
+    const id = metadata.getEntityIdMap(entity) as FindOptionsWhere<T>;
+    const expectedVersion = metadata.versionColumn.getEntityValue(entity);
+    if (!id || expectedVersion === undefined || expectedVersion === null) {
+      return await this.save(entity);
+    }
+
+    await this.stampEntities([entity], false);
+    const values = {};
+    for (const column of metadata.columns) {
+      const value = column.getEntityValue(entity);
+      if (
+        value !== undefined &&
+        !column.isPrimary &&
+        !column.isVersion &&
+        !column.isGenerated &&
+        !column.isVirtual &&
+        !column.isCreateDate &&
+        !column.isUpdateDate
+      ) {
+        OrmUtils.mergeDeep(values, column.createValueMap(value));
+      }
+    }
+
+    this.clearEntityCache();
+    const queryBuilder = this.getTypeOrmRepository().createQueryBuilder();
+    const { affected } = await this.runWrite(() =>
+      queryBuilder
+        .update()
+        .set(values)
+        .where(this.scopeCriteria(id) as FindOptionsWhere<T>)
+        .andWhere(
+          `${queryBuilder.escape(
+            metadata.versionColumn.databaseName,
+          )} = :expectedVersion`,
+          { expectedVersion },
+        )
+        .execute(),
+    );
+
+    const current = await this.findOne({
+      where: id,
+      withDeleted: true,
+      useMaster: true,
+    });
+    if (!affected) {
+      throw new OptimisticLockConflictException(
+        metadata.name,
+        expectedVersion,
+        current ? metadata.versionColumn.getEntityValue(current) : undefined,
+      );
+    }
+    return current;
+  }
+
   /** Updates given entity/entities */
   async update(id: IdType | FindOptionsWhere<T>, entity: DeepPartial<T>) {
-    await this.getTypeOrmRepository().update(id, entity);
+    this.clearEntityCache();
+    const values = { ...entity };
+    const { updatedByColumn } = this.getPolicies();
+    const updatedBy =
+      updatedByColumn &&
+      this.getTypeOrmRepository().metadata.findColumnWithPropertyPath(
+        updatedByColumn,
+      );
+    const userId = RequestContext.get()?.userId;
+    if (updatedBy && userId !== undefined && userId !== null) {
+      updatedBy.setEntityValue(values, userId);
+    }
+    // Without key columns, only the values are checked, so that records cannot be moved to another tenant
+    await this.assertTenantScope([values], []);
+    await this.runWrite(() =>
+      this.getTypeOrmRepository().update(this.scopeCriteria(id), values),
+    );
+  }
+
+  /** Get the columns identifying the records of an upsert */
+  protected getConflictColumns(conflictPaths: string[] | UpsertOptions<T>) {
+    const paths =
+      conflictPaths instanceof Array
+        ? conflictPaths
+        : conflictPaths.conflictPaths instanceof Array
+        ? conflictPaths.conflictPaths
+        : Object.keys(conflictPaths.conflictPaths);
+    return this.getTypeOrmRepository().metadata.mapPropertyPathsToColumns(
+      paths,
+    );
   }
 
   /** Upserts record(s) */
@@ -201,158 +923,379 @@ export class TransactionalRepository<T extends ObjectLiteral> {
     entity: DeepPartial<T> | DeepPartial<T>[],
     conflictPaths: string[] | UpsertOptions<T>,
   ) {
-    await this.getTypeOrmRepository().upsert(entity, conflictPaths);
+    this.clearEntityCache();
+    await this.stampEntities(
+      entity instanceof Array ? entity : [entity],
+      false,
+      this.getConflictColumns(conflictPaths),
+    );
+    await this.runWrite(() =>
+      this.getTypeOrmRepository().upsert(entity, conflictPaths),
+    );
+  }
+
+  /** Split the records into chunks fitting into the parameter limit of the driver and write them in a single transaction */
+  protected async writeInChunks(
+    entities: DeepPartial<T>[],
+    options: IBulkWriteOptions | undefined,
+    write: (chunk: DeepPartial<T>[]) => Promise<unknown>,
+  ) {
+    const chunkSize =
+      options?.chunkSize ??
+      getMaxRecordsPerQuery(
+        this.dataSource.options.type,
+        this.getTypeOrmRepository().metadata.columns.length,
+      );
+    if (entities.length <= chunkSize) {
+      await write(entities);
+      return;
+    }
+    await transaction(async () => {
+      for (let i = 0; i < entities.length; i += chunkSize) {
+        await write(entities.slice(i, i + chunkSize));
+      }
+    }, this.connection);
+  }
+
+  /** Insert many records, splitting them into multiple queries if they do not fit into the parameter limit of the driver. All queries run in the same transaction */
+  async insertMany(
+    entities: DeepPartial<T>[],
+    options?: IBulkWriteOptions,
+  ): Promise<T[]> {
+    this.clearEntityCache();
+    await this.stampEntities(entities, true);
+    await this.runWrite(() =>
+      this.writeInChunks(entities, options, (chunk) =>
+        this.getTypeOrmRepository().insert(chunk),
+      ),
+    );
+    return entities as T[];
+  }
+
+  /** Upsert many records, splitting them into multiple queries if they do not fit into the parameter limit of the driver. All queries run in the same transaction */
+  async upsertMany(
+    entities: DeepPartial<T>[],
+    conflictPaths: string[] | UpsertOptions<T>,
+    options?: IBulkWriteOptions,
+  ) {
+    this.clearEntityCache();
+    await this.stampEntities(
+      entities,
+      false,
+      this.getConflictColumns(conflictPaths),
+    );
+    await this.runWrite(() =>
+      this.writeInChunks(entities, options, (chunk) =>
+        this.getTypeOrmRepository().upsert(chunk, conflictPaths),
+      ),
+    );
   }
 
   /** Deletes record(s) */
   async delete(id: IdType | FindOptionsWhere<T>) {
-    await this.getTypeOrmRepository().delete(id);
-  }
-
-  /** Disassociate all child entities in many to many relationships */
-  async disassociateAll(entityId: IdType, relation: keyof T) {
-    const relations = this.getTypeOrmRepository().metadata.relations;
-    let found = false;
-    let columnName = '';
-    for (let r of relations) {
-      if (r.propertyName === relation.toString()) {
-        if (!r.isManyToMany || !r.junctionEntityMetadata) {
-          throw new Error(
-            'Not a many to many relationship or no junction metadata found',
-          );
-        }
+    this.clearEntityCache();
+    await this.runWrite(() =>
+      this.getTypeOrmRepository().delete(this.scopeCriteria(id)),
+    );
+  }
 
-        r.junctionEntityMetadata.columns.forEach((column) => {
-          if (column.referencedColumn.target === this.EntityClass) {
-            columnName = column.databaseName;
-          }
-        });
+  /** Soft deletes record(s) by setting their delete date column */
+  async softDelete(id: IdType | FindOptionsWhere<T>) {
+    this.clearEntityCache();
+    await this.getTypeOrmRepository().softDelete(this.scopeCriteria(id));
+  }
 
-        if (!columnName) {
-          throw new Error(
-            'No column found in junction table for the given entity',
-          );
-        }
+  /** Restores soft deleted record(s) */
+  async restore(id: IdType | FindOptionsWhere<T>) {
+    this.clearEntityCache();
+    await this.getTypeOrmRepository().restore(this.scopeCriteria(id));
+  }
 
-        await this.getTypeOrmRepository()
-          .createQueryBuilder()
-          .delete()
-          .from(r.joinTableName)
-          .where(`${columnName} = :id`, {
-            id: entityId,
-          })
-          .execute();
-        found = true;
-      }
+  /** Soft removes given entity/entities, calling subscribers and cascading soft removals */
+  async softRemove(entity: T[], saveOptions?: SaveOptions): Promise<T[]>;
+  async softRemove(entity: T, saveOptions?: SaveOptions): Promise<T>;
+  async softRemove(entity: T | T[], saveOptions?: SaveOptions) {
+    this.clearEntityCache();
+    await this.assertTenantScope(entity instanceof Array ? entity : [entity]);
+    const options = { ...saveOptions, transaction: false };
+    if (entity instanceof Array) {
+      return await this.getTypeOrmRepository().softRemove(entity, options);
+    } else {
+      return await this.getTypeOrmRepository().softRemove(entity, options);
+    }
+  }
+
+  /** Recovers soft removed entity/entities */
+  async recover(entity: T[], saveOptions?: SaveOptions): Promise<T[]>;
+  async recover(entity: T, saveOptions?: SaveOptions): Promise<T>;
+  async recover(entity: T | T[], saveOptions?: SaveOptions) {
+    this.clearEntityCache();
+    await this.assertTenantScope(entity instanceof Array ? entity : [entity]);
+    const options = { ...saveOptions, transaction: false };
+    if (entity instanceof Array) {
+      return await this.getTypeOrmRepository().recover(entity, options);
+    } else {
+      return await this.getTypeOrmRepository().recover(entity, options);
     }
-    if (!found) {
-      throw new Error(
-        `Relation ${relation.toString()} not found in ${
-          this.EntityClass instanceof Function
-            ? this.EntityClass.name
-            : this.EntityClass.options.name
-        }`,
+  }
+
+  /** Get the metadata of a relation of the entity */
+  protected getRelationMetadata(relation: keyof T) {
+    const relationMetadata =
+      this.getTypeOrmRepository().metadata.findRelationWithPropertyPath(
+        relation.toString(),
+      );
+    if (!relationMetadata) {
+      throw new RelationNotFoundException(
+        relation.toString(),
+        this.getEntityName(),
       );
     }
+    return relationMetadata;
   }
 
-  /** Disassociate child entities by ids in many to many relationships */
-  async disassociate(
-    entityId: IdType,
-    relatedEntityId: IdType,
+  /** Create a query builder for the relation of the given entity, running on the active transactional manager */
+  protected createRelationQueryBuilder(
     relation: keyof T,
+    entity: RelationIdType,
+    queryRunner?: QueryRunner,
   ) {
-    const relations = this.getTypeOrmRepository().metadata.relations;
-    let found = false;
-    for (let r of relations)
-      if (r.propertyName === relation.toString()) {
-        if (!r.isManyToMany) {
-          throw new Error('Not a many to many relationship');
-        }
-        await this.getTypeOrmRepository()
-          .createQueryBuilder()
-          .relation(this.EntityClass, relation.toString())
-          .of(entityId)
-          .remove(relatedEntityId);
-        found = true;
+    return this.getTypeOrmRepository()
+      .createQueryBuilder(undefined, queryRunner)
+      .relation(this.EntityClass, relation.toString())
+      .of(entity);
+  }
+
+  /** Remove the cached records of the entity and of the related entity after a relation was changed */
+  protected clearRelationCache(relation: RelationMetadata) {
+    this.clearEntityCache();
+    EntityCache.clear(this.connection, relation.inverseEntityMetadata.name);
+  }
+
+  /** Add related entities to a many to many or one to many relation */
+  protected async addRelated(
+    relation: RelationMetadata,
+    entityId: RelationIdType,
+    relatedIds: RelationIdType,
+  ) {
+    // TypeORM checks each value against the join columns, so with composite keys the id maps are added one by one
+    const values =
+      relation.joinColumns.length > 1 && relatedIds instanceof Array
+        ? relatedIds
+        : [relatedIds];
+    for (const value of values) {
+      await this.createRelationQueryBuilder(
+        relation.propertyPath as keyof T,
+        entityId,
+      ).add(value);
+    }
+  }
+
+  /** Load the related entity/entities, assigning them to the relation property of the given entity */
+  async loadRelation<K extends keyof T>(entity: T, relation: K): Promise<T[K]> {
+    const relationMetadata = this.getRelationMetadata(relation);
+    await this.assertRelationOwnerScope(entity);
+    const related = await this.runReadQuery(undefined, (queryRunner) => {
+      const queryBuilder = this.createRelationQueryBuilder(
+        relation,
+        entity,
+        queryRunner,
+      );
+      return relationMetadata.isOneToMany || relationMetadata.isManyToMany
+        ? queryBuilder.loadMany()
+        : queryBuilder.loadOne().then((value) => value ?? null);
+    });
+    relationMetadata.setEntityValue(entity, related);
+    return related;
+  }
+
+  /**
+   * Set the related entities to exactly the given ids. For many to many and one to many relations,
+   * only the missing relations are added and the others are removed. For many to one and one to one relations, a single id or null is expected
+   */
+  async setRelation(
+    entityId: RelationIdType,
+    relation: keyof T,
+    relatedIds: RelationIdType | null,
+  ) {
+    const relationMetadata = this.getRelationMetadata(relation);
+    await this.assertRelationOwnerScope(entityId);
+    this.clearRelationCache(relationMetadata);
+    if (relationMetadata.isManyToOne || relationMetadata.isOneToOne) {
+      if (relatedIds instanceof Array) {
+        throw new InvalidRelationTypeException(
+          relation.toString(),
+          this.getEntityName(),
+          'to many',
+        );
       }
-    if (!found) {
-      throw new Error(
-        `Relation ${relation.toString()} not found in ${
-          this.EntityClass instanceof Function
-            ? this.EntityClass.name
-            : this.EntityClass.options.name
-        }`,
+      await this.runWrite(() =>
+        this.createRelationQueryBuilder(relation, entityId).set(relatedIds),
       );
+      return;
     }
+
+    const { inverseEntityMetadata } = relationMetadata;
+    const toIdMaps = (ids: RelationIdType[]) =>
+      ids.map((id) =>
+        inverseEntityMetadata.getEntityIdMap(
+          inverseEntityMetadata.ensureEntityIdMap(id),
+        ),
+      );
+    const expected = toIdMaps(
+      relatedIds === null
+        ? []
+        : relatedIds instanceof Array
+        ? relatedIds
+        : [relatedIds],
+    );
+    await this.runWrite(() =>
+      transaction(async () => {
+        const current = toIdMaps(
+          await this.createRelationQueryBuilder(relation, entityId).loadMany(),
+        );
+        const added = EntityMetadata.difference(expected, current);
+        const removed = EntityMetadata.difference(current, expected);
+        await this.createRelationQueryBuilder(relation, entityId).remove(
+          removed,
+        );
+        await this.addRelated(relationMetadata, entityId, added);
+      }, this.connection),
+    );
   }
 
-  /** Associate child entities by ids in many to many relationships */
-  async associate(
-    entityId: IdType,
-    relatedEntityId: IdType,
+  /** Disassociate all related entities */
+  async disassociateAll(entityId: RelationIdType, relation: keyof T) {
+    await this.setRelation(entityId, relation, null);
+  }
+
+  /** Disassociate related entities by ids. A many to one or one to one relation is only removed if it points to the given entity */
+  async disassociate(
+    entityId: RelationIdType,
+    relatedEntityId: RelationIdType,
     relation: keyof T,
   ) {
-    const relations = this.getTypeOrmRepository().metadata.relations;
-    let found = false;
-    for (let r of relations)
-      if (r.propertyName === relation.toString()) {
-        if (!r.isManyToMany) {
-          throw new Error('Not a many to many relationship');
-        }
-        await this.getTypeOrmRepository()
-          .createQueryBuilder()
-          .relation(this.EntityClass, relation.toString())
-          .of(entityId)
-          .add(relatedEntityId);
-        found = true;
-      }
-    if (!found) {
-      throw new Error(
-        `Relation ${relation.toString()} not found in ${
-          this.EntityClass instanceof Function
-            ? this.EntityClass.name
-            : this.EntityClass.options.name
-        }`,
+    const relationMetadata = this.getRelationMetadata(relation);
+    await this.assertRelationOwnerScope(entityId);
+    this.clearRelationCache(relationMetadata);
+    if (relationMetadata.isOneToMany || relationMetadata.isManyToMany) {
+      await this.runWrite(() =>
+        this.createRelationQueryBuilder(relation, entityId).remove(
+          relatedEntityId,
+        ),
       );
+      return;
     }
+
+    const { inverseEntityMetadata } = relationMetadata;
+    await this.runWrite(() =>
+      transaction(async () => {
+        const current = await this.createRelationQueryBuilder(
+          relation,
+          entityId,
+        ).loadOne();
+        if (
+          current &&
+          OrmUtils.compareIds(
+            inverseEntityMetadata.getEntityIdMap(current),
+            inverseEntityMetadata.getEntityIdMap(
+              inverseEntityMetadata.ensureEntityIdMap(relatedEntityId),
+            ),
+          )
+        ) {
+          await this.createRelationQueryBuilder(relation, entityId).set(null);
+        }
+      }, this.connection),
+    );
+  }
+
+  /** Associate related entities by ids. For many to one and one to one relations, the current relation is replaced */
+  async associate(
+    entityId: RelationIdType,
+    relatedEntityId: RelationIdType,
+    relation: keyof T,
+  ) {
+    const relationMetadata = this.getRelationMetadata(relation);
+    await this.assertRelationOwnerScope(entityId);
+    this.clearRelationCache(relationMetadata);
+    await this.runWrite(() =>
+      relationMetadata.isOneToMany || relationMetadata.isManyToMany
+        ? this.addRelated(relationMetadata, entityId, relatedEntityId)
+        : this.createRelationQueryBuilder(relation, entityId).set(
+            relatedEntityId,
+          ),
+    );
   }
 
   /** Count entities */
-  async count(options?: FindManyOptions<T>): Promise<number> {
-    return await this.getTypeOrmRepository().count(options);
+  async count(options?: IFindManyOptions<T>): Promise<number> {
+    return await this.runReadQuery(options?.useMaster, (queryRunner) =>
+      this.createFindQueryBuilder(options, queryRunner).getCount(),
+    );
+  }
+
+  /** Run an aggregate function on a column */
+  protected async aggregate(
+    fn: 'AVG' | 'SUM' | 'MAX' | 'MIN',
+    columnName: PickKeysByType<T, number>,
+    where?: FindOptionsWhere<T> | FindOptionsWhere<T>[],
+    options?: IAggregateOptions,
+  ): Promise<number> {
+    const { useMaster, ...findOptions } = options ?? {};
+    const queryBuilder = this.createFindQueryBuilder({ where, ...findOptions });
+    const column =
+      queryBuilder.expressionMap.mainAlias.metadata.findColumnWithPropertyPath(
+        String(columnName),
+      );
+    queryBuilder.select(
+      `${fn}(${queryBuilder.escape(queryBuilder.alias)}.${queryBuilder.escape(
+        column?.databaseName ?? String(columnName),
+      )})`,
+      'result',
+    );
+    const result = await this.runReadQuery(useMaster, (queryRunner) => {
+      if (queryRunner) {
+        queryBuilder.setQueryRunner(queryRunner);
+      }
+      return queryBuilder.getRawOne();
+    });
+    return result.result === null ? null : parseFloat(result.result);
   }
 
   /** Get the average of a culumn */
   async average(
     columnName: PickKeysByType<T, number>,
     where?: FindOptionsWhere<T> | FindOptionsWhere<T>[],
+    options?: IAggregateOptions,
   ): Promise<number> {
-    return await this.getTypeOrmRepository().average(columnName, where);
+    return await this.aggregate('AVG', columnName, where, options);
   }
 
   /** Get the sum of a column */
   async sum(
     columnName: PickKeysByType<T, number>,
     where?: FindOptionsWhere<T> | FindOptionsWhere<T>[],
+    options?: IAggregateOptions,
   ): Promise<number> {
-    return await this.getTypeOrmRepository().sum(columnName, where);
+    return await this.aggregate('SUM', columnName, where, options);
   }
 
   /** Get the max value of a column */
   async max(
     columnName: PickKeysByType<T, number>,
     where?: FindOptionsWhere<T> | FindOptionsWhere<T>[],
+    options?: IAggregateOptions,
   ): Promise<number> {
-    return await this.getTypeOrmRepository().maximum(columnName, where);
+    return await this.aggregate('MAX', columnName, where, options);
   }
 
   /** Get the min value of a column */
   async min(
     columnName: PickKeysByType<T, number>,
     where?: FindOptionsWhere<T> | FindOptionsWhere<T>[],
+    options?: IAggregateOptions,
   ): Promise<number> {
-    return await this.getTypeOrmRepository().minimum(columnName, where);
+    return await this.aggregate('MIN', columnName, where, options);
   }
 
   /** Merge multiple entity like objects into a single entity */
@@ -1,7 +1,19 @@
 import { DynamicModule, Module, Provider } from '@nestjs/common';
-import { createProviders, getDataSourceInjectionToken } from './common/utils';
+import {
+  createAsyncProviders,
+  createOutboxProviders,
+  createProviders,
+  getDataSourceInjectionToken,
+  getDataSourceLifecycleInjectionToken,
+} from './common/utils';
+import { DataSourceLifecycle } from './common/datasource-lifecycle';
+import { TypeOrmTransactionHealthIndicator } from './common/health-indicator';
 import { DataSource, EntitySchema } from 'typeorm';
-import { ConnectionOptions } from './types/connection-options';
+import {
+  ConnectionOptions,
+  TypeOrmTransactionModuleAsyncOptions,
+} from './types/connection-options';
+import { IOutboxModuleOptions } from './types/outbox';
 import {
   DEFAULT_DATASOURCE_NAME,
   DataSourceStorage,
@@ -21,6 +33,16 @@ export class TypeOrmTransactionModule {
         useFactory: () => dataSource,
         provide: getDataSourceInjectionToken(options.name),
       },
+      {
+        useFactory: () =>
+          new DataSourceLifecycle(
+            options.name ?? DEFAULT_DATASOURCE_NAME,
+            dataSource,
+            options.shutdownTimeout,
+          ),
+        provide: getDataSourceLifecycleInjectionToken(options.name),
+      },
+      TypeOrmTransactionHealthIndicator,
     ];
     return {
       module: TypeOrmTransactionModule,
@@ -30,6 +52,22 @@ export class TypeOrmTransactionModule {
     };
   }
 
+  static forRootAsync(
+    options: TypeOrmTransactionModuleAsyncOptions,
+  ): DynamicModule {
+    const providers = createAsyncProviders(options);
+    return {
+      module: TypeOrmTransactionModule,
+      imports: options.imports ?? [],
+      providers: providers,
+      exports: [
+        getDataSourceInjectionToken(options.name ?? DEFAULT_DATASOURCE_NAME),
+        TypeOrmTransactionHealthIndicator,
+      ],
+      global: true,
+    };
+  }
+
   static forFeature(
     entities: Array<Function | EntitySchema<any>> = [],
     dataSource: string = DEFAULT_DATASOURCE_NAME
@@ -41,4 +79,14 @@ export class TypeOrmTransactionModule {
       exports: providers,
     };
   }
+
+  /** Provides OutboxService and, if a publisher is given, OutboxRelay */
+  static forOutbox(options: IOutboxModuleOptions = {}): DynamicModule {
+    const providers = createOutboxProviders(options);
+    return {
+      module: TypeOrmTransactionModule,
+      providers: providers,
+      exports: providers,
+    };
+  }
 }
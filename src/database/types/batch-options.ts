@@ -0,0 +1,13 @@
+import { ICursorPaginationOptions } from './pagination';
+import { TransactionOptions } from './transaction-options';
+
+export interface IChunkOptions<T>
+  extends Omit<ICursorPaginationOptions<T>, 'after' | 'before' | 'limit'> {
+  /** Runs each chunk, including its query, in its own transaction which is committed before the next chunk is read. Transaction options can be given to override the defaults, which are the connection of the repository and REQUIRES_NEW propagation */
+  transactional?: boolean | TransactionOptions;
+}
+
+export interface IBulkWriteOptions {
+  /** Maximum number of records written by a single query. Defaults to the most that fits into the parameter limit of the driver */
+  chunkSize?: number;
+}
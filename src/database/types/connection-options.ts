@@ -1,6 +1,32 @@
+import { ModuleMetadata, Type } from '@nestjs/common';
 import { DataSourceOptions, EntitySchema } from 'typeorm';
 
 export type ConnectionOptions = DataSourceOptions & {
   name?: string;
   entities: Array<Function | EntitySchema<any>>;
+  /** Milliseconds to wait for transactions in progress before the data source is destroyed on application shutdown. Defaults to 10000 */
+  shutdownTimeout?: number;
 };
+
+/** Implemented by classes passed to forRootAsync() method as useClass or useExisting */
+export interface TypeOrmTransactionOptionsFactory {
+  createTypeOrmTransactionOptions():
+    | Promise<ConnectionOptions>
+    | ConnectionOptions;
+}
+
+export interface TypeOrmTransactionModuleAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  /** Name of the connection. It has to be given here since the connection options are resolved later on */
+  name?: string;
+  /** Factory returning the connection options */
+  useFactory?: (
+    ...args: any[]
+  ) => Promise<ConnectionOptions> | ConnectionOptions;
+  /** Providers to inject into the factory */
+  inject?: any[];
+  /** Class to instantiate in order to create the connection options */
+  useClass?: Type<TypeOrmTransactionOptionsFactory>;
+  /** Existing provider to use in order to create the connection options */
+  useExisting?: Type<TypeOrmTransactionOptionsFactory>;
+}
@@ -0,0 +1,19 @@
+import { FindOneOptions } from 'typeorm';
+
+export interface IEntityPipeOptions {
+  /** Number of milliseconds to keep the found record in the cache */
+  ttl?: number;
+  /** Whether to expire the record after first retrieval */
+  once?: boolean;
+  /** Name of the connection the entity belongs to */
+  dataSource?: string;
+  /** Column to look the record up by instead of the primary key (e.g. a slug) */
+  column?: string;
+}
+
+export interface IEntityByIdPipeOptions<T> extends IEntityPipeOptions {
+  /** Relations to load along with the record */
+  relations?: FindOneOptions<T>['relations'];
+  /** Columns to select. Records loaded with a selection are not cached */
+  select?: FindOneOptions<T>['select'];
+}
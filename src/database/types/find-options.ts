@@ -0,0 +1,31 @@
+import { FindManyOptions, FindOneOptions } from 'typeorm';
+
+export interface IFindManyOptions<T> extends FindManyOptions<T> {
+  /** Only return soft deleted records. Requires a delete date column */
+  onlyDeleted?: boolean;
+  /** Read from the master instead of a read replica when no transaction is active */
+  useMaster?: boolean;
+}
+
+export interface IFindOneOptions<T> extends FindOneOptions<T> {
+  /** Only return soft deleted records. Requires a delete date column */
+  onlyDeleted?: boolean;
+  /** Read from the master instead of a read replica when no transaction is active */
+  useMaster?: boolean;
+}
+
+export interface IAggregateOptions {
+  /** Include soft deleted records */
+  withDeleted?: boolean;
+  /** Only include soft deleted records. Requires a delete date column */
+  onlyDeleted?: boolean;
+  /** Read from the master instead of a read replica when no transaction is active */
+  useMaster?: boolean;
+}
+
+export interface ILockOptions {
+  /** Lock mode. Defaults to pessimistic_write (SELECT ... FOR UPDATE) */
+  lockMode?: 'pessimistic_write' | 'pessimistic_read';
+  /** Behaviour when a record is already locked. Waits for the lock by default */
+  onLocked?: 'nowait' | 'skip_locked';
+}
@@ -0,0 +1,24 @@
+/** Result of a health check in the format of @nestjs/terminus */
+export interface IHealthIndicatorResult {
+  [key: string]: {
+    status: 'up' | 'down';
+    [detail: string]: any;
+  };
+}
+
+/** Connection pool statistics. Only the values exposed by the driver are set */
+export interface IPoolStats {
+  /** Number of connections in the pool */
+  total?: number;
+  /** Number of idle connections in the pool */
+  idle?: number;
+  /** Number of requests waiting for a connection */
+  waiting?: number;
+}
+
+export interface IPingCheckOptions {
+  /** Name of the connection configured in forRoot() method. Defaults to the default connection */
+  connection?: string;
+  /** Milliseconds to wait for the ping query. Defaults to 1000 */
+  timeout?: number;
+}
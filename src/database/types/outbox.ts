@@ -0,0 +1,53 @@
+import { Type } from '@nestjs/common';
+
+export enum OutboxStatus {
+  /** Waiting to be published or retried */
+  PENDING = 'pending',
+  /** Published successfully */
+  SENT = 'sent',
+  /** Gave up after reaching the maximum number of attempts */
+  FAILED = 'failed',
+}
+
+export interface IOutboxEvent {
+  /** Type of the event, used by publishers to route it */
+  type: string;
+  /** Payload of the event. Stored as JSON */
+  payload?: any;
+  /** Earliest time the event can be published. Defaults to now */
+  availableAt?: Date;
+}
+
+export interface IOutboxMessage {
+  id: number;
+  type: string;
+  payload: any;
+  /** Number of attempts made to publish the message, including the current one */
+  attempts: number;
+  createdAt: Date;
+}
+
+/** Publishes outbox messages to a message broker, event bus etc. Throwing marks the message for retry */
+export interface IOutboxPublisher {
+  publish(message: IOutboxMessage): Promise<void>;
+}
+
+export interface IOutboxRelayOptions {
+  /** Name of the connection the outbox entity is registered in */
+  connection?: string;
+  /** Maximum number of messages claimed at once. Defaults to 100 */
+  batchSize?: number;
+  /** Maximum number of attempts before a message is marked as failed. Defaults to 5 */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled after each attempt. Defaults to 1000 */
+  retryDelay?: number;
+  /** Number of milliseconds a claimed message is hidden from other relays while being published. Defaults to 60000 */
+  leaseTime?: number;
+  /** Polls the outbox with the given interval in milliseconds once the application is bootstrapped. Polling is disabled if not given */
+  pollInterval?: number;
+}
+
+export interface IOutboxModuleOptions extends IOutboxRelayOptions {
+  /** Publisher class to hand the messages to. The relay is only registered if a publisher is given */
+  publisher?: Type<IOutboxPublisher>;
+}
@@ -1,7 +1,40 @@
+import { IFindManyOptions } from './find-options';
+
 export interface IPagination<T> {
-  count: number;
-  pageCount: number;
+  /** Total number of records. Not set when the count query is skipped */
+  count?: number;
+  /** Total number of pages. Not set when the count query is skipped */
+  pageCount?: number;
   currentPage: number;
   limit: number;
+  /** Whether there are more records after the current page */
+  hasMore: boolean;
   data: T[];
 }
+
+export interface IPaginationOptions<T> extends IFindManyOptions<T> {
+  /** Skips the count query. The next page is detected by fetching one more record instead */
+  skipCount?: boolean;
+}
+
+export interface ICursorPaginationOptions<T>
+  extends Omit<IFindManyOptions<T>, 'order' | 'skip' | 'take'> {
+  /** Columns to order by. Primary key columns are appended as tiebreakers */
+  orderBy?: { [P in keyof T]?: 'ASC' | 'DESC' };
+  /** Cursor of the record after which the page starts */
+  after?: string;
+  /** Cursor of the record before which the page ends. Ignored if after is given */
+  before?: string;
+  /** Maximum number of records in the page */
+  limit: number;
+}
+
+export interface ICursorPagination<T> {
+  data: T[];
+  /** Cursor to pass as after to retrieve the next page. Null if there is no next page */
+  nextCursor: string | null;
+  /** Cursor to pass as before to retrieve the previous page. Null if there is no previous page */
+  prevCursor: string | null;
+  /** Whether there are more records in the paging direction */
+  hasMore: boolean;
+}
@@ -0,0 +1,18 @@
+/** Values describing the caller of the current request */
+export interface IRequestContext {
+  /** Identifier stamped into the audit columns of written records */
+  userId?: string | number;
+  /** Identifier of the tenant the queries of tenant-scoped entities are limited to */
+  tenantId?: string | number;
+  [key: string]: any;
+}
+
+/** Columns that repositories fill in and filter by, given as entity property names. Entities without a column are not affected by it */
+export interface IRepositoryPolicies {
+  /** Column holding the tenant of a record. Queries are limited to the tenant of the request context and written records are stamped with it */
+  tenantColumn?: string;
+  /** Column stamped with the user of the request context when a record is inserted */
+  createdByColumn?: string;
+  /** Column stamped with the user of the request context whenever a record is written */
+  updatedByColumn?: string;
+}
@@ -0,0 +1,43 @@
+/** Type of a transaction lifecycle event. Release is only emitted for database transactions, once their query runner is released */
+export type TransactionEventType = 'start' | 'commit' | 'rollback' | 'release';
+
+export interface ITransactionEvent {
+  type: TransactionEventType;
+  /** Identifies the transaction across its events */
+  id: number;
+  /** Name of the connection configured in forRoot() method */
+  connection: string;
+  /** Name of the transaction, i.e. the class and method name set by @Transactional() */
+  name?: string;
+  /** Number of savepoints the transaction is nested in. Zero for database transactions */
+  depth: number;
+  /** Milliseconds passed since the transaction was started */
+  duration: number;
+  /** Error that caused the rollback */
+  error?: any;
+}
+
+export type TransactionEventListener = (event: ITransactionEvent) => void;
+
+/** Status codes of a span, matching the ones of OpenTelemetry */
+export enum TransactionSpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2,
+}
+
+/** Subset of OpenTelemetry Span used to trace transactions */
+export interface ITransactionSpan {
+  setAttribute(key: string, value: string | number | boolean): any;
+  setStatus(status: { code: TransactionSpanStatusCode; message?: string }): any;
+  recordException(exception: any): any;
+  end(): void;
+}
+
+/** Subset of OpenTelemetry Tracer used to trace transactions. A tracer of @opentelemetry/api can be given directly */
+export interface ITransactionTracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: { [key: string]: string | number | boolean } },
+  ): ITransactionSpan;
+}
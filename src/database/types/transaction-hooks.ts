@@ -0,0 +1,14 @@
+/** Final status of a transaction */
+export enum TransactionStatus {
+  COMMITTED = 'COMMITTED',
+  ROLLED_BACK = 'ROLLED_BACK',
+}
+
+/** Type of a transaction lifecycle hook */
+export type TransactionHookType = 'commit' | 'rollback' | 'complete';
+
+export interface ITransactionHooks {
+  commit: Array<() => any>;
+  rollback: Array<(error: any) => any>;
+  complete: Array<(status: TransactionStatus) => any>;
+}
@@ -0,0 +1,8 @@
+import { TransactionOptions } from './transaction-options';
+
+export interface ITransactionInterceptorOptions {
+  /** Whether POST, PUT, PATCH and DELETE requests and GraphQL mutations should run in a transaction without being marked with @TransactionalRoute(). Defaults to false */
+  mutatingMethods?: boolean;
+  /** Name of the connection or transaction options used for the routes which are not given their own options. Defaults to the default connection */
+  transactionOptions?: string | TransactionOptions;
+}
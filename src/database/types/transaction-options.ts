@@ -0,0 +1,62 @@
+import { IsolationLevel } from 'typeorm/driver/types/IsolationLevel';
+
+/** Defines how a transactional call behaves when a transaction is already active for its connection */
+export enum Propagation {
+  /** Joins the active transaction or starts a new one if there is none */
+  REQUIRED = 'REQUIRED',
+  /** Always starts a new transaction, suspending the active one until the new one is completed */
+  REQUIRES_NEW = 'REQUIRES_NEW',
+  /** Runs within a nested transaction if a transaction is active, otherwise behaves like REQUIRED */
+  NESTED = 'NESTED',
+  /** Joins the active transaction or runs without any transaction if there is none */
+  SUPPORTS = 'SUPPORTS',
+  /** Joins the active transaction and throws if there is none */
+  MANDATORY = 'MANDATORY',
+  /** Runs without any transaction and throws if a transaction is active */
+  NEVER = 'NEVER',
+}
+
+export interface RetryOptions {
+  /** Maximum number of attempts including the first one. Defaults to 3 */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds. Defaults to 50 */
+  initialDelay?: number;
+  /** Upper bound of the delay between attempts in milliseconds. Defaults to 1000 */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each attempt. Defaults to 2 */
+  factor?: number;
+  /** Whether to randomize the delay between zero and the computed delay. Defaults to true */
+  jitter?: boolean;
+  /** Decides whether the transaction should be retried for the given error. Defaults to the predicate of the connection's driver */
+  shouldRetry?: (error: any) => boolean;
+}
+
+export interface TransactionOptions {
+  /** Name of the connection configured in forRoot() method */
+  connection?: string;
+  /** Names of the connections to run the transaction on atomically. Takes precedence over connection. Transactions are committed in the given order */
+  connections?: string[];
+  /** Propagation behaviour of the transaction. Defaults to REQUIRED */
+  propagation?: Propagation;
+  /** Shorthand for NESTED propagation. Runs in a savepoint when a transaction is already active */
+  nested?: boolean;
+  /** Isolation level of the transaction. Database default is used if not specified */
+  isolationLevel?: IsolationLevel;
+  /** Whether the transaction should be started in read-only mode */
+  readOnly?: boolean;
+  /** Retries the whole transaction on serialization failures and deadlocks. Only applied when a new transaction is started */
+  retry?: RetryOptions;
+  /** Rolls back the transaction and rejects with TransactionTimeoutException if it runs longer than the given milliseconds. Also sets server side statement and lock timeouts where the driver supports them. Only applied when a new transaction is started */
+  timeout?: number;
+  /** Logs a warning when the transaction runs longer than the given milliseconds. Only applied when a new transaction is started */
+  warningThreshold?: number;
+  /** Name of the transaction used in logs and exceptions. Set to the class and method name by @Transactional() */
+  name?: string;
+}
+
+export interface TransactionalOptions extends TransactionOptions {
+  /** Names of the methods to wrap when the decorator is used on a class. Listed methods are wrapped even if they are not async */
+  include?: string[];
+  /** Names of the methods to leave unwrapped when the decorator is used on a class */
+  exclude?: string[];
+}